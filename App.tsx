@@ -1,15 +1,19 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { HashRouter, Routes, Route, useNavigate, useParams, Link } from 'react-router-dom';
-import { Notebook, Notification, BackgroundJob, Artifact } from './types';
-import { getNotebooks, createNotebook, getNotebookById, saveNotebook } from './services/storage';
+import { Notebook, Notification, BackgroundJob, Artifact, ScoutMission, ScoutMissionTarget, ScoutConfig } from './types';
+import { getNotebooks, createNotebook, getNotebookById, saveNotebook, consumeMigrationReports, saveArtifactAudio, getScoutMissions, saveScoutMission, deleteScoutMission } from './services/storage';
 import { THEMES, ThemeId } from './constants';
-import { Plus, MoreVertical, Check, Zap, X } from 'lucide-react';
+import { Plus, MoreVertical, Check, Zap, X, Upload, Loader2 } from 'lucide-react';
 import NotebookView from './components/NotebookView';
 import SplashScreen from './components/SplashScreen';
-import { generateArtifact, generateAudioOverview } from './services/ai';
+import { generateArtifact, generateAudioOverview, findScoutTargets, acquireScoutTarget, scoutCandidateToSource } from './services/ai';
+import { findDuplicate, describeDuplicate } from './services/dedupe';
+import { snapshotSourceVersions } from './services/sources';
 import { ThemeContext, useTheme, JobContext, useJobs } from './contexts';
 import { NebulaLogo, ThemeSelector } from './components/ThemeUI';
+import { parseBundle, restoreBundle, BUNDLE_EXTENSION, NotebookBundle } from './services/bundle';
+import { decodeSharePayload, getOpenedSharedBundle, setOpenedSharedBundle, materializeSharedNotebook, forkSharedBundle } from './services/share';
 
 // --- ROBUST CSS ANIMATIONS ---
 const GlobalBackground: React.FC = () => {
@@ -270,27 +274,72 @@ const GlobalBackground: React.FC = () => {
     );
 };
 
+// Surfaces schema migrations that ran while loading notebooks
+const useMigrationNotices = () => {
+  const { notify } = useJobs();
+  return useCallback(() => {
+    consumeMigrationReports().forEach(report => {
+      if (report.error) {
+        notify("Notebook Upgrade Incomplete", `"${report.title}" stayed at schema v${report.toVersion}: ${report.error}`, 'error');
+      } else {
+        notify("Notebook Upgraded", `"${report.title}" migrated from v${report.fromVersion} to v${report.toVersion} (${report.applied.join('; ')}).`, 'info');
+      }
+    });
+  }, [notify]);
+};
+
 // 1. Dashboard Component
 const Dashboard: React.FC = () => {
   const [notebooks, setNotebooks] = useState<Notebook[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newTitle, setNewTitle] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const navigate = useNavigate();
   const { theme } = useTheme();
+  const { notify } = useJobs();
+  const showMigrationNotices = useMigrationNotices();
 
   useEffect(() => {
-    setNotebooks(getNotebooks());
-  }, []);
+    getNotebooks()
+      .then(nbs => { setNotebooks(nbs); showMigrationNotices(); })
+      .catch(e => console.error("Failed to load notebooks", e));
+  }, [showMigrationNotices]);
 
-  const handleCreate = (e: React.FormEvent) => {
+  const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTitle.trim()) return;
     
-    const nb = createNotebook(newTitle);
+    const nb = await createNotebook(newTitle);
     navigate(`/notebook/${nb.id}`);
   };
 
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const bundle = parseBundle(await file.text());
+      if (bundle.manifest.readOnly) {
+        // Shared snapshots open in the viewer; forking from there copies them in
+        setOpenedSharedBundle(bundle);
+        navigate('/shared');
+        return;
+      }
+      const notebookId = await restoreBundle(bundle);
+      notify("Import Complete", `Restored notebook from ${file.name}.`, 'success');
+      navigate(`/notebook/${notebookId}`);
+    } catch (err: any) {
+      console.error("Import failed", err);
+      notify("Import Failed", err.message || "Could not import this file.", 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <div className={`min-h-screen p-4 md:p-8 relative z-10`}>
       <header className="flex justify-between items-center mb-10 md:mb-16 relative z-50">
@@ -301,6 +350,21 @@ const Dashboard: React.FC = () => {
       <div className="max-w-6xl mx-auto relative z-10 pb-20">
         <div className="flex justify-between items-end mb-8">
           <h2 className="text-xl text-slate-300 font-light tracking-wide">Your Research Space</h2>
+          <input 
+            type="file" 
+            ref={importInputRef} 
+            className="hidden" 
+            accept={`${BUNDLE_EXTENSION},application/json`}
+            onChange={handleImport}
+          />
+          <button 
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className={`flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-full text-sm font-medium text-slate-300 hover:text-white transition-all border border-white/10 hover:border-${theme.colors.primary}-500/30 disabled:opacity-50`}
+          >
+            {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            Import Notebook
+          </button>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -402,21 +466,26 @@ const NotebookContainer: React.FC = () => {
   const navigate = useNavigate();
   const { theme } = useTheme();
   const { jobs } = useJobs();
+  const showMigrationNotices = useMigrationNotices();
 
   useEffect(() => {
-    if (id) {
-      const nb = getNotebookById(id);
+    if (!id) return;
+    let cancelled = false;
+    getNotebookById(id).then(nb => {
+      if (cancelled) return;
+      showMigrationNotices();
       if (nb) {
         setNotebook(nb);
       } else {
         navigate('/');
       }
-    }
-  }, [id, navigate, jobs]);
+    }).catch(e => console.error("Failed to load notebook", e));
+    return () => { cancelled = true; };
+  }, [id, navigate, jobs, showMigrationNotices]);
 
   const handleUpdate = (updated: Notebook) => {
     setNotebook(updated);
-    saveNotebook(updated);
+    saveNotebook(updated).catch(e => console.error("Failed to save notebook", e));
   };
 
   if (!notebook) return (
@@ -429,6 +498,63 @@ const NotebookContainer: React.FC = () => {
   return <NotebookView notebook={notebook} onUpdate={handleUpdate} />;
 };
 
+// 3. Shared (read-only) Notebook Viewer
+const SharedNotebookContainer: React.FC = () => {
+  const { payload } = useParams<{ payload?: string }>();
+  const [bundle, setBundle] = useState<NotebookBundle | null>(null);
+  const [notebook, setNotebook] = useState<Notebook | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { theme } = useTheme();
+  const { notify } = useJobs();
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = payload ? decodeSharePayload(payload) : Promise.resolve(getOpenedSharedBundle());
+    load.then(b => {
+      if (cancelled) return;
+      if (b) setBundle(b);
+      else setError("No shared notebook to display.");
+    }).catch(e => !cancelled && setError(e.message || "Could not open the shared notebook."));
+    return () => { cancelled = true; };
+  }, [payload]);
+
+  useEffect(() => {
+    if (!bundle) return;
+    const { notebook: shared, objectUrls } = materializeSharedNotebook(bundle);
+    setNotebook(shared);
+    return () => objectUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [bundle]);
+
+  const handleFork = async () => {
+    if (!bundle) return;
+    try {
+      const notebookId = await forkSharedBundle(bundle);
+      notify("Notebook Forked", `"${bundle.notebook.title}" is now in your notebooks.`, 'success');
+      navigate(`/notebook/${notebookId}`);
+    } catch (e: any) {
+      console.error("Fork failed", e);
+      notify("Fork Failed", e.message || "Could not copy this notebook.", 'error');
+    }
+  };
+
+  if (error) return (
+      <div className={`min-h-screen flex flex-col items-center justify-center gap-4 relative z-10`}>
+          <span className="text-rose-400 font-medium">{error}</span>
+          <Link to="/" className={`text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300 text-sm`}>Back to your notebooks</Link>
+      </div>
+  );
+
+  if (!notebook) return (
+      <div className={`min-h-screen flex flex-col items-center justify-center gap-4 relative z-10`}>
+          <div className={`w-12 h-12 border-4 border-${theme.colors.primary}-500 border-t-transparent rounded-full animate-spin`}></div>
+          <span className={`text-${theme.colors.primary}-500 font-medium animate-pulse`}>Opening shared notebook...</span>
+      </div>
+  );
+
+  return <NotebookView notebook={notebook} onUpdate={setNotebook} readOnly onFork={handleFork} />;
+};
+
 const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [jobs, setJobs] = useState<BackgroundJob[]>([]);
     const [notifications, setNotifications] = useState<Notification[]>([]);
@@ -456,7 +582,7 @@ const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
             'info'
         );
         
-        const notebook = getNotebookById(notebookId);
+        const notebook = await getNotebookById(notebookId);
         if (notebook) {
             const placeholder: Artifact = {
                 id: placeholderId,
@@ -464,10 +590,11 @@ const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
                 title: `${type === 'audioOverview' ? 'Podcast' : type === 'executiveBrief' ? 'Executive Brief' : type} (Generating...)`,
                 content: {},
                 createdAt: Date.now(),
-                status: 'generating'
+                status: 'generating',
+                sourceVersions: snapshotSourceVersions(sources)
             };
             notebook.artifacts.unshift(placeholder);
-            saveNotebook(notebook);
+            await saveNotebook(notebook);
         }
 
         const newJob: BackgroundJob = {
@@ -482,9 +609,10 @@ const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
         setTimeout(async () => {
             try {
                 let content;
+                let audioBlob: Blob | undefined;
                 if (type === 'audioOverview') {
                     // Pass the config params (length, style, voices) to the service
-                    content = await generateAudioOverview(
+                    const { audioBlob: audio, ...dialogue } = await generateAudioOverview(
                         sources, 
                         config?.length, 
                         config?.style, 
@@ -495,21 +623,26 @@ const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
                         },
                         config?.learningIntent
                     );
+                    audioBlob = audio;
+                    content = { ...dialogue, audioStored: true, audioUpdatedAt: Date.now() };
                 } else {
                     content = await generateArtifact(type, sources);
                 }
 
-                const nb = getNotebookById(notebookId);
+                const nb = await getNotebookById(notebookId);
                 if (nb) {
                     const idx = nb.artifacts.findIndex(a => a.id === placeholderId);
                     if (idx !== -1) {
+                        // Persist the WAV bytes under the placeholder id so the episode survives reloads.
+                        // Skipped when the placeholder was deleted meanwhile, as nothing would clean that blob up.
+                        if (audioBlob) await saveArtifactAudio(placeholderId, audioBlob);
                         nb.artifacts[idx] = {
                             ...nb.artifacts[idx],
                             title: `${type === 'audioOverview' ? content.title || 'Podcast' : type === 'executiveBrief' ? 'Executive Brief' : type} - ${new Date().toLocaleTimeString()}`,
                             content,
                             status: 'completed'
                         };
-                        saveNotebook(nb);
+                        await saveNotebook(nb);
                     }
                 }
 
@@ -522,12 +655,12 @@ const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 
             } catch (error: any) {
                 console.error(error);
-                 const nb = getNotebookById(notebookId);
+                 const nb = await getNotebookById(notebookId).catch(() => undefined);
                  if (nb) {
                      const idx = nb.artifacts.findIndex(a => a.id === placeholderId);
                      if (idx !== -1) {
                          nb.artifacts[idx].status = 'failed';
-                         saveNotebook(nb);
+                         await saveNotebook(nb).catch(e => console.error("Failed to save notebook", e));
                      }
                  }
                 setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: 'failed' } : j));
@@ -539,8 +672,148 @@ const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
         }, 0);
     };
 
+    // --- SCOUT MISSIONS ---
+    const [scoutMissions, setScoutMissions] = useState<ScoutMission[]>([]);
+    const scoutMissionsRef = useRef(scoutMissions);
+    scoutMissionsRef.current = scoutMissions;
+    // One controller per running mission; aborting it stops the run before the next target
+    const scoutControllers = useRef(new Map<string, AbortController>());
+    // Last mission objects written to storage; null until the saved missions have loaded
+    const persistedMissions = useRef<Map<string, ScoutMission> | null>(null);
+    const missionWrites = useRef<Promise<void>>(Promise.resolve());
+
+    // Stopped missions keep finished targets; the one in flight goes back to pending for Resume
+    const stoppedMission = (mission: ScoutMission, error?: string): ScoutMission => ({
+        ...mission,
+        status: 'cancelled',
+        progress: undefined,
+        ...(error ? { error } : {}),
+        targets: mission.targets.map(t => t.status === 'fetching' ? { ...t, status: 'pending' } : t)
+    });
+
+    // A mission that was running when the app closed comes back cancelled and resumable
+    useEffect(() => {
+        getScoutMissions().then(saved => {
+            const restored = saved.map(m => m.status === 'searching' || m.status === 'fetching'
+                ? stoppedMission(m, "Interrupted when the app was closed. Resume to fetch the remaining targets.")
+                : m);
+            persistedMissions.current = new Map(saved.map(m => [m.id, m]));
+            setScoutMissions(prev => [...restored.filter(m => !prev.some(p => p.id === m.id)), ...prev]);
+        }).catch(e => {
+            console.error("Failed to load scout missions", e);
+            persistedMissions.current = new Map();
+        });
+    }, []);
+
+    // Writes missions whose object changed and removes dismissed ones, one write at a time so
+    // a slow progress update cannot land after a newer one
+    useEffect(() => {
+        const persisted = persistedMissions.current;
+        if (!persisted) return;
+        const changed = scoutMissions.filter(m => persisted.get(m.id) !== m);
+        const removed = [...persisted.keys()].filter(id => !scoutMissions.some(m => m.id === id));
+        changed.forEach(m => persisted.set(m.id, m));
+        removed.forEach(id => persisted.delete(id));
+        if (changed.length === 0 && removed.length === 0) return;
+        missionWrites.current = missionWrites.current
+            .then(() => Promise.all([...changed.map(saveScoutMission), ...removed.map(deleteScoutMission)]))
+            .then(() => undefined)
+            .catch(e => console.error("Failed to save scout missions", e));
+    }, [scoutMissions]);
+
+    const runScoutMission = async (mission: ScoutMission) => {
+        const controller = new AbortController();
+        scoutControllers.current.set(mission.id, controller);
+        const update = (changes: Partial<ScoutMission>) => {
+            if (controller.signal.aborted) return;
+            setScoutMissions(prev => prev.map(m => m.id === mission.id ? { ...m, ...changes } : m));
+        };
+
+        // Finished targets are kept on resume; everything else is fetched again
+        let targets = mission.targets.map((t): ScoutMissionTarget =>
+            t.status === 'done' || t.status === 'skipped' ? t : { ...t, status: 'pending', error: undefined });
+        const setTarget = (index: number, changes: Partial<ScoutMissionTarget>) => {
+            targets = targets.map((t, i) => i === index ? { ...t, ...changes } : t);
+            update({ targets });
+        };
+
+        try {
+            if (targets.length === 0) {
+                update({ status: 'searching', error: undefined, progress: "Initializing Scout Agent..." });
+                const found = await findScoutTargets(mission.topic, mission.config, (progress) => update({ progress }));
+                targets = found.map((t): ScoutMissionTarget => ({ ...t, status: 'pending' }));
+            }
+            update({ status: 'fetching', error: undefined, targets });
+
+            for (const [i, target] of targets.entries()) {
+                if (controller.signal.aborted) return;
+                if (target.status !== 'pending') continue;
+                update({ progress: `Acquiring target ${i + 1} of ${targets.length}: ${target.title}...` });
+                setTarget(i, { status: 'fetching' });
+                try {
+                    const candidate = await acquireScoutTarget(target, mission.config);
+                    // Search often returns the same article twice (mirrors, syndication); keep the first
+                    const kept = targets.filter(t => t.candidate).map(t => scoutCandidateToSource(t.candidate!));
+                    const duplicate = findDuplicate(scoutCandidateToSource(candidate), kept);
+                    setTarget(i, duplicate
+                        ? { status: 'skipped', error: `${describeDuplicate(duplicate)} as ${duplicate.source.title}` }
+                        : { status: 'done', candidate });
+                } catch (e: any) {
+                    setTarget(i, { status: 'failed', error: e.message || "Could not fetch this page." });
+                }
+            }
+            if (controller.signal.aborted) return;
+
+            const found = targets.filter(t => t.status === 'done').length;
+            const failed = targets.filter(t => t.status === 'failed').length;
+            if (found === 0) throw new Error("None of the targets could be fetched.");
+            update({ status: 'review', progress: undefined });
+            addNotification(
+                "Scout Mission Complete",
+                `${found} source${found === 1 ? '' : 's'} for "${mission.topic}" ready for review${failed ? `; ${failed} failed and can be retried` : ''}.`,
+                'success'
+            );
+        } catch (error: any) {
+            if (controller.signal.aborted) return;
+            console.error("Nebula Scout Error:", error);
+            const errorMsg = error.message || "Scout mission aborted.";
+            update({ status: 'failed', progress: undefined, error: errorMsg });
+            addNotification("Scout Mission Failed", errorMsg, 'error');
+        } finally {
+            if (scoutControllers.current.get(mission.id) === controller) scoutControllers.current.delete(mission.id);
+        }
+    };
+
+    const startScout = (notebookId: string, topic: string, config: ScoutConfig) => {
+        const mission: ScoutMission = { id: crypto.randomUUID(), notebookId, topic, config, status: 'searching', targets: [], startedAt: Date.now() };
+        setScoutMissions(prev => [...prev, mission]);
+        runScoutMission(mission);
+        return mission.id;
+    };
+
+    const stopScoutRun = (id: string) => {
+        scoutControllers.current.get(id)?.abort();
+        scoutControllers.current.delete(id);
+    };
+
+    const cancelScout = (id: string) => {
+        stopScoutRun(id);
+        setScoutMissions(prev => prev.map(m => m.id === id ? stoppedMission(m) : m));
+    };
+
+    const resumeScout = (id: string) => {
+        const mission = scoutMissionsRef.current.find(m => m.id === id);
+        if (!mission || scoutControllers.current.has(id)) return;
+        runScoutMission(mission);
+    };
+
+    const dismissScout = (id: string) => {
+        stopScoutRun(id);
+        setScoutMissions(prev => prev.filter(m => m.id !== id));
+    };
+
     return (
-        <JobContext.Provider value={{ startJob, jobs, notifications, dismissNotification }}>
+        <JobContext.Provider value={{ startJob, jobs, notifications, notify: addNotification, dismissNotification, scoutMissions, startScout, cancelScout, resumeScout, dismissScout }}>
             {children}
             <div className="fixed bottom-4 right-4 z-[9999] flex flex-col gap-2">
                 {notifications.map(n => (
@@ -581,6 +854,8 @@ const App: React.FC = () => {
             <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/notebook/:id" element={<NotebookContainer />} />
+            <Route path="/shared" element={<SharedNotebookContainer />} />
+            <Route path="/shared/:payload" element={<SharedNotebookContainer />} />
             </Routes>
         </HashRouter>
       </JobProvider>
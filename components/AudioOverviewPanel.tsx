@@ -2,15 +2,17 @@
 import React, { useState } from 'react';
 import { Notebook, Artifact, AudioOverviewDialogue } from '../types';
 import { generateAudioOverviewDialogue } from '../services/audioOverview';
+import { getActiveSources, snapshotSourceVersions, audioCitationSpan } from '../services/sources';
 import { RefreshCw, Save, Copy, CheckCircle, AlertCircle, Sparkles, Mic2, Clock } from 'lucide-react';
 import { useTheme } from '../contexts';
 
 interface Props {
   notebook: Notebook;
   onSaveArtifact: (artifact: Artifact) => void;
+  onOpenSource?: (sourceId: string, highlight?: { start: number; end: number }) => void;
 }
 
-const AudioOverviewPanel: React.FC<Props> = ({ notebook, onSaveArtifact }) => {
+const AudioOverviewPanel: React.FC<Props> = ({ notebook, onSaveArtifact, onOpenSource }) => {
   const { theme } = useTheme();
   
   // Config State
@@ -22,6 +24,7 @@ const AudioOverviewPanel: React.FC<Props> = ({ notebook, onSaveArtifact }) => {
   const [progressStep, setProgressStep] = useState('');
   const [error, setError] = useState('');
   const [result, setResult] = useState<AudioOverviewDialogue | null>(null);
+  const [sourceVersions, setSourceVersions] = useState<Record<string, number>>({});
 
   const handleGenerate = async () => {
     if (!topic.trim()) return;
@@ -30,6 +33,7 @@ const AudioOverviewPanel: React.FC<Props> = ({ notebook, onSaveArtifact }) => {
     setProgressStep('Initializing...');
 
     try {
+      const generatedFrom = snapshotSourceVersions(getActiveSources(notebook));
       const dialogue = await generateAudioOverviewDialogue(
         notebook, 
         topic, 
@@ -37,6 +41,7 @@ const AudioOverviewPanel: React.FC<Props> = ({ notebook, onSaveArtifact }) => {
         (step) => setProgressStep(step)
       );
       setResult(dialogue);
+      setSourceVersions(generatedFrom);
       setStatus('completed');
     } catch (e: any) {
       console.error(e);
@@ -53,7 +58,8 @@ const AudioOverviewPanel: React.FC<Props> = ({ notebook, onSaveArtifact }) => {
       title: result.title,
       content: result,
       createdAt: Date.now(),
-      status: 'completed'
+      status: 'completed',
+      sourceVersions
     };
     onSaveArtifact(artifact);
   };
@@ -184,11 +190,20 @@ const AudioOverviewPanel: React.FC<Props> = ({ notebook, onSaveArtifact }) => {
                              <span className="flex items-center gap-1"><Clock size={10} /> Pause: {turn.pauseMsAfter}ms</span>
                              {turn.citations.length > 0 && (
                                 <div className="flex gap-1">
-                                   {turn.citations.map((c, i) => (
-                                      <span key={i} className="px-1.5 py-0.5 bg-slate-800 rounded text-slate-400 border border-slate-700">
-                                         Src: {notebook.sources.find(s => s.id === c.sourceId)?.title.slice(0, 10)}...
-                                      </span>
-                                   ))}
+                                   {turn.citations.map((c, i) => {
+                                      const source = notebook.sources.find(s => s.id === c.sourceId);
+                                      return (
+                                         <button 
+                                            key={i} 
+                                            onClick={() => source && result && onOpenSource?.(source.id, audioCitationSpan(result, source, c.note))}
+                                            disabled={!source || !onOpenSource}
+                                            className="px-1.5 py-0.5 bg-slate-800 rounded text-slate-400 border border-slate-700 enabled:hover:text-white enabled:hover:bg-slate-700 transition-colors"
+                                            title={c.note}
+                                         >
+                                            Src: {source?.title.slice(0, 10)}...
+                                         </button>
+                                      );
+                                   })}
                                 </div>
                              )}
                           </div>
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Source } from '../types';
+import { X, Quote, Copy, Download } from 'lucide-react';
+import { useTheme, useJobs } from '../contexts';
+import { exportBibliography, BIBLIOGRAPHY_FORMATS, CITATION_STYLES, BibliographyFormat, CitationStyle } from '../services/citations';
+import { downloadBlob } from '../services/bundle';
+
+interface Props {
+  sources: Source[];
+  excludedSourceIds: string[];
+  onClose: () => void;
+}
+
+const BibliographyExport: React.FC<Props> = ({ sources, excludedSourceIds, onClose }) => {
+  const { theme } = useTheme();
+  const { notify } = useJobs();
+  const [format, setFormat] = useState<BibliographyFormat>('bibtex');
+  const [style, setStyle] = useState<CitationStyle>('apa');
+  const [activeOnly, setActiveOnly] = useState(false);
+
+  const included = activeOnly ? sources.filter(s => !excludedSourceIds.includes(s.id)) : sources;
+  const output = exportBibliography(included, format, style);
+  const { extension, mimeType } = BIBLIOGRAPHY_FORMATS[format];
+
+  const handleCopy = () => {
+      navigator.clipboard.writeText(output);
+      notify("Bibliography Copied", `${included.length} reference${included.length === 1 ? '' : 's'} copied as ${BIBLIOGRAPHY_FORMATS[format].label}.`, 'success');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={onClose}>
+        <div className="glass-panel w-full max-w-3xl rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-start gap-4 mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                        <Quote size={20} className={`text-${theme.colors.primary}-400`} /> Bibliography
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Fix missing authors or dates with the reference button on each source.</p>
+                </div>
+                <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors shrink-0">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+                <div className="flex p-1 bg-slate-900 border border-slate-700 rounded-xl font-medium">
+                    {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map(f => (
+                        <button
+                            key={f}
+                            onClick={() => setFormat(f)}
+                            className={`px-3 py-1.5 rounded-lg transition-colors ${format === f ? `bg-${theme.colors.primary}-600 text-white` : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {BIBLIOGRAPHY_FORMATS[f].label}
+                        </button>
+                    ))}
+                </div>
+                {format === 'text' && (
+                    <select
+                        value={style}
+                        onChange={(e) => setStyle(e.target.value as CitationStyle)}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-slate-200 outline-none"
+                    >
+                        {(Object.keys(CITATION_STYLES) as CitationStyle[]).map(s => <option key={s} value={s}>{CITATION_STYLES[s]}</option>)}
+                    </select>
+                )}
+                <label className="flex items-center gap-2 ml-auto text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={activeOnly} onChange={(e) => setActiveOnly(e.target.checked)} />
+                    Active sources only
+                </label>
+            </div>
+
+            <pre className="flex-1 overflow-y-auto custom-scrollbar bg-black/30 rounded-xl border border-white/5 p-5 text-xs text-slate-300 leading-relaxed whitespace-pre-wrap break-words font-mono">
+                {output || 'No sources to cite.'}
+            </pre>
+
+            <div className="flex justify-end gap-3 mt-5">
+                <button onClick={handleCopy} disabled={!output} className="flex items-center gap-2 px-4 py-2.5 hover:bg-white/10 rounded-xl transition-colors font-medium text-slate-300 disabled:opacity-50">
+                    <Copy size={16} /> Copy
+                </button>
+                <button
+                    onClick={() => downloadBlob(new Blob([output], { type: mimeType }), `bibliography.${extension}`)}
+                    disabled={!output}
+                    className={`flex items-center gap-2 px-6 py-2.5 bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 rounded-xl font-bold text-white transition-colors disabled:opacity-50`}
+                >
+                    <Download size={16} /> Download .{extension}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default BibliographyExport;
@@ -1,23 +1,44 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Notebook, ChatMessage } from '../types';
+import { Notebook, ChatMessage, ChatThread, ChatCitation, ChatMode } from '../types';
 import { generateAnswer, speakText } from '../services/ai';
-import { Send, Sparkles, User, ExternalLink, Volume2, Loader2, StopCircle, Share2, Copy } from 'lucide-react';
-import { useTheme } from '../contexts';
+import { Send, Sparkles, User, ExternalLink, Volume2, Loader2, StopCircle, Share2, Copy, Plus, MessageSquare, Edit2, Trash2, Check, History, BookLock, Globe, StickyNote } from 'lucide-react';
+import { useTheme, useJobs } from '../contexts';
+import { createNote, textToNoteHtml } from '../services/notes';
+import { getActiveSources, pageAt, isCitationStale } from '../services/sources';
+import { transcriptTimeAt, videoLinkAt, formatTimestamp } from '../services/youtube';
 
 interface Props {
   notebook: Notebook;
+  onUpdate: (nb: Notebook) => void;
+  onOpenSource?: (sourceId: string, highlight?: { start: number; end: number }) => void;
+  readOnly?: boolean;
 }
 
-const ChatTab: React.FC<Props> = ({ notebook }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-        id: 'welcome',
-        role: 'model',
-        text: `Hi! I'm ready to answer questions based on the ${notebook.sources.length} sources in this notebook. What would you like to know?`,
-        citations: []
-    }
-  ]);
+const THREAD_TITLE_LENGTH = 48;
+
+const deriveThreadTitle = (text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > THREAD_TITLE_LENGTH ? `${clean.slice(0, THREAD_TITLE_LENGTH - 1)}…` : clean || 'New Chat';
+};
+
+const CHAT_MODES: Record<ChatMode, { label: string; hint: string }> = {
+  sourcesOnly: { label: 'Sources only', hint: 'Answers strictly from notebook sources, no web search' },
+  sourcesAndWeb: { label: 'Sources + Web', hint: 'Answers from sources, filling gaps with Google Search' },
+};
+
+const STALE_CITATION_HINT = 'The source was refreshed after this answer; the cited passage may have moved';
+
+// Newest activity first
+const sortThreads = (threads: ChatThread[]) => [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
+const ChatTab: React.FC<Props> = ({ notebook, onUpdate, onOpenSource, readOnly = false }) => {
+  const threads = sortThreads(notebook.chatThreads || []);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(threads[0]?.id ?? null);
+  const [messages, setMessages] = useState<ChatMessage[]>(threads[0]?.messages ?? []);
+  const [showThreads, setShowThreads] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -28,6 +49,72 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
   const { theme } = useTheme();
+  const { notify } = useJobs();
+
+  // Streaming outlives renders; always persist against the latest notebook
+  const notebookRef = useRef(notebook);
+  notebookRef.current = notebook;
+
+  // Thread setting wins; new chats start from the notebook default
+  const activeThread = (notebook.chatThreads || []).find(t => t.id === activeThreadId);
+  const mode: ChatMode = activeThread?.mode || notebook.chatMode || 'sourcesAndWeb';
+
+  const setMode = (next: ChatMode) => {
+      if (loading || next === mode) return;
+      if (activeThread) {
+          saveThreads(all => all.map(t => t.id === activeThread.id ? { ...t, mode: next } : t));
+      } else {
+          onUpdate({ ...notebookRef.current, chatMode: next, updatedAt: Date.now() });
+      }
+  };
+
+  const activeSources = getActiveSources(notebook);
+  const sourceSummary = activeSources.length === notebook.sources.length
+      ? `${notebook.sources.length} sources`
+      : `${activeSources.length} of ${notebook.sources.length} sources`;
+
+  const welcomeMessage: ChatMessage = {
+      id: 'welcome',
+      role: 'model',
+      text: `Hi! I'm ready to answer questions based on the ${sourceSummary} active in this notebook. What would you like to know?`,
+      citations: []
+  };
+  const visibleMessages = messages.length > 0 ? messages : [welcomeMessage];
+
+  const saveThreads = (update: (threads: ChatThread[]) => ChatThread[]) => {
+      const latest = notebookRef.current;
+      onUpdate({ ...latest, chatThreads: update(latest.chatThreads || []), updatedAt: Date.now() });
+  };
+
+  const openThread = (thread: ChatThread | null) => {
+      if (loading) return;
+      setActiveThreadId(thread?.id ?? null);
+      setMessages(thread?.messages ?? []);
+      setShowThreads(false);
+  };
+
+  const startRename = (thread: ChatThread) => {
+      setRenamingId(thread.id);
+      setRenameValue(thread.title);
+  };
+
+  const commitRename = () => {
+      const title = renameValue.trim();
+      if (renamingId && title) {
+          saveThreads(all => all.map(t => t.id === renamingId ? { ...t, title } : t));
+      }
+      setRenamingId(null);
+  };
+
+  const handleDeleteThread = (threadId: string) => {
+      if (loading && threadId === activeThreadId) return;
+      if (!confirm("Delete this conversation? This cannot be undone.")) return;
+      saveThreads(all => all.filter(t => t.id !== threadId));
+      if (threadId === activeThreadId) {
+          setActiveThreadId(null);
+          setMessages([]);
+      }
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -46,7 +133,22 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
         role: 'user',
         text: input
     };
-    setMessages(prev => [...prev, userMsg]);
+
+    // First question starts a new thread
+    const now = Date.now();
+    const existingThread = (notebook.chatThreads || []).find(t => t.id === activeThreadId);
+    const thread: ChatThread = existingThread || {
+        id: crypto.randomUUID(),
+        title: deriveThreadTitle(userMsg.text),
+        createdAt: now,
+        updatedAt: now,
+        mode,
+        messages: []
+    };
+    if (!existingThread) setActiveThreadId(thread.id);
+
+    const history = [...messages, userMsg];
+    setMessages(history);
     setInput('');
     setLoading(true);
 
@@ -55,14 +157,15 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
         id: modelMsgId,
         role: 'model',
         text: '',
-        isStreaming: true
+        isStreaming: true,
+        mode
     };
     setMessages(prev => [...prev, modelMsg]);
 
     let fullResponse = '';
     let accumulatedGrounding: any = undefined;
     
-    await generateAnswer(userMsg.text, notebook.sources, (chunk, grounding) => {
+    const citations = await generateAnswer(userMsg.text, activeSources, (chunk, grounding) => {
         fullResponse += chunk;
         if (grounding) {
             accumulatedGrounding = grounding;
@@ -70,12 +173,34 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
         setMessages(prev => prev.map(m => 
             m.id === modelMsgId ? { ...m, text: fullResponse, groundingMetadata: accumulatedGrounding } : m
         ));
-    });
+    }, messages, mode);
 
-    setMessages(prev => prev.map(m => 
-        m.id === modelMsgId ? { ...m, isStreaming: false } : m
-    ));
+    const finalMessages: ChatMessage[] = [
+        ...history,
+        { id: modelMsgId, role: 'model', text: fullResponse, citations, groundingMetadata: accumulatedGrounding, mode }
+    ];
+    setMessages(finalMessages);
     setLoading(false);
+
+    saveThreads(all => [
+        { ...thread, messages: finalMessages, updatedAt: Date.now() },
+        ...all.filter(t => t.id !== thread.id)
+    ]);
+  };
+
+  // Pins an answer to the Notes panel. Citation markers are dropped since they only resolve in chat.
+  const handleSaveToNote = (msg: ChatMessage) => {
+      const index = messages.findIndex(m => m.id === msg.id);
+      const question = [...messages.slice(0, Math.max(index, 0))].reverse().find(m => m.role === 'user');
+      const text = msg.text.replace(/\s?\[\d+(?:\s*,\s*\d+)*\]/g, '');
+      const note = createNote(
+          question ? deriveThreadTitle(question.text) : 'Chat answer',
+          textToNoteHtml(text),
+          activeThreadId ? { threadId: activeThreadId, messageId: msg.id } : undefined
+      );
+      const latest = notebookRef.current;
+      onUpdate({ ...latest, notes: [note, ...(latest.notes || [])], updatedAt: Date.now() });
+      notify("Saved to notes", `"${note.title}" was added to your notes.`, 'success');
   };
 
   const handleSpeak = async (msg: ChatMessage) => {
@@ -108,11 +233,122 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
     }
   };
 
+  // Citations into text that has since been refreshed open the source without a highlight
+  const openCitation = (citation: ChatCitation) => {
+      const source = notebook.sources.find(s => s.id === citation.sourceId);
+      if (!source) return;
+      onOpenSource?.(source.id, isCitationStale(citation, source) ? undefined : { start: citation.start, end: citation.end });
+  };
+
+  // Turns "[2]" / "[1, 3]" into clickable markers for citations that resolved to a passage
+  const renderWithCitations = (msg: ChatMessage) => {
+      const citations = msg.citations || [];
+      if (citations.length === 0 || msg.isStreaming) return msg.text;
+      const byMarker = new Map<number, ChatCitation>(citations.map(c => [c.marker, c]));
+      return msg.text.split(/(\[\d+(?:\s*,\s*\d+)*\])/g).map((part, i) => {
+          const markers = part.match(/^\[([\d,\s]+)\]$/)?.[1].split(',').map(n => Number(n.trim()));
+          if (!markers || !markers.some(n => byMarker.has(n))) return part;
+          return (
+              <span key={i} className="whitespace-nowrap">
+                  {markers.map(n => {
+                      const citation = byMarker.get(n);
+                      if (!citation) return null;
+                      const source = notebook.sources.find(s => s.id === citation.sourceId);
+                      const stale = !!source && isCitationStale(citation, source);
+                      const page = source && !stale && pageAt(source, citation.start);
+                      return (
+                          <button 
+                              key={n}
+                              onClick={() => openCitation(citation)}
+                              disabled={!source}
+                              title={source ? `${source.title}${page ? `, p. ${page}` : ''}${stale ? `. ${STALE_CITATION_HINT}.` : ''}` : 'Source removed'}
+                              className={`align-super text-[10px] font-bold mx-0.5 px-1.5 py-0.5 rounded-md ${stale ? 'bg-amber-500/15 text-amber-300 hover:bg-amber-500/30' : `bg-${theme.colors.primary}-500/20 text-${theme.colors.primary}-300 hover:bg-${theme.colors.primary}-500/40`} disabled:opacity-40 disabled:cursor-default transition-colors`}
+                          >
+                              {n}
+                          </button>
+                      );
+                  })}
+              </span>
+          );
+      });
+  };
+
   return (
-    <div className="h-full flex flex-col">
+    <div className="h-full flex gap-6 relative">
+      {/* Thread List (sidebar on desktop, overlay on mobile) */}
+      <aside className={`${showThreads ? 'flex absolute inset-0 z-30 bg-slate-950/95' : 'hidden'} md:flex md:static md:bg-transparent md:w-64 shrink-0 flex-col glass-panel rounded-2xl border border-white/5 p-3 gap-2`}>
+        <button 
+            onClick={() => openThread(null)}
+            disabled={loading}
+            className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl text-sm font-bold text-white bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 transition-colors disabled:opacity-50`}
+        >
+            <Plus size={16} /> New Chat
+        </button>
+        <h4 className="text-[10px] uppercase font-bold text-slate-500 tracking-wider mt-2 px-1">History</h4>
+        <div className="flex-1 overflow-y-auto space-y-1 custom-scrollbar">
+            {threads.length === 0 && (
+                <p className="text-xs text-slate-500 px-1 py-2">No conversations yet.</p>
+            )}
+            {threads.map(thread => (
+                <div 
+                    key={thread.id} 
+                    className={`group flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer transition-colors ${thread.id === activeThreadId ? `bg-${theme.colors.primary}-500/15 text-${theme.colors.primary}-300` : 'text-slate-400 hover:bg-white/5 hover:text-slate-200'}`}
+                    onClick={() => renamingId !== thread.id && openThread(thread)}
+                >
+                    <MessageSquare size={14} className="shrink-0" />
+                    {renamingId === thread.id ? (
+                        <>
+                            <input 
+                                value={renameValue}
+                                onChange={(e) => setRenameValue(e.target.value)}
+                                onBlur={commitRename}
+                                onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                                autoFocus
+                                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-xs text-white outline-none"
+                            />
+                            <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="text-green-400 hover:text-green-300"><Check size={12} /></button>
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-xs font-medium truncate">{thread.title}</p>
+                                <p className="text-[10px] text-slate-500">{new Date(thread.createdAt).toLocaleDateString()} • {thread.messages.length} msgs</p>
+                            </div>
+                            {!readOnly && (
+                                <>
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); startRename(thread); }}
+                                        className="p-1 text-slate-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Rename"
+                                    >
+                                        <Edit2 size={12} />
+                                    </button>
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); handleDeleteThread(thread.id); }}
+                                        className="p-1 text-slate-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Delete"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+            ))}
+        </div>
+      </aside>
+
+      <div className="flex-1 min-w-0 h-full flex flex-col">
       <audio ref={audioRef} className="hidden" />
+      <button 
+          onClick={() => setShowThreads(true)}
+          className="md:hidden self-start mb-3 flex items-center gap-2 text-xs font-medium text-slate-400 hover:text-white px-3 py-1.5 rounded-lg bg-white/5 border border-white/5"
+      >
+          <History size={14} /> Conversations ({threads.length})
+      </button>
       <div className="flex-1 overflow-y-auto space-y-8 pb-4">
-        {messages.map((msg) => (
+        {visibleMessages.map((msg) => (
             <div key={msg.id} className={`flex gap-5 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 {msg.role === 'model' && (
                     <div className={`w-10 h-10 rounded-xl bg-gradient-to-br from-${theme.colors.primary}-500 to-${theme.colors.secondary}-600 flex items-center justify-center shrink-0 shadow-lg shadow-${theme.colors.primary}-500/20`}>
@@ -128,7 +364,7 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
                         ? `bg-${theme.colors.primary}-900/40 border border-${theme.colors.primary}-500/20 text-slate-100 rounded-tr-sm` 
                         : 'glass-panel text-slate-200 rounded-tl-sm border-white/5'
                     }`}>
-                        <p className="whitespace-pre-wrap leading-relaxed text-[15px]">{msg.text}</p>
+                        <p className="whitespace-pre-wrap leading-relaxed text-[15px]">{renderWithCitations(msg)}</p>
                         {msg.isStreaming && <span className={`inline-block w-2 h-4 bg-${theme.colors.primary}-400 ml-1 animate-pulse`}/>}
 
                         {/* Model Message Toolbar (Permanently Visible) */}
@@ -156,10 +392,68 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
                                     <Copy size={14} />
                                     Copy
                                 </button>
+
+                                {msg.id !== 'welcome' && !readOnly && (
+                                    <button 
+                                        className="flex items-center gap-2 text-xs font-medium text-slate-400 hover:text-white hover:bg-white/5 px-3 py-1.5 rounded-lg transition-colors"
+                                        onClick={() => handleSaveToNote(msg)}
+                                    >
+                                        <StickyNote size={14} />
+                                        Save to note
+                                    </button>
+                                )}
+
+                                {msg.mode && (
+                                    <span 
+                                        className="ml-auto flex items-center gap-1.5 text-[10px] uppercase font-bold tracking-wider text-slate-500"
+                                        title={CHAT_MODES[msg.mode].hint}
+                                    >
+                                        {msg.mode === 'sourcesOnly' ? <BookLock size={12} /> : <Globe size={12} />}
+                                        {CHAT_MODES[msg.mode].label}
+                                    </span>
+                                )}
                             </div>
                         )}
                     </div>
 
+                    {/* Notebook Passage Citations */}
+                    {msg.role === 'model' && !msg.isStreaming && msg.citations && msg.citations.length > 0 && (
+                        <div className="flex flex-wrap gap-2 w-full">
+                            {msg.citations.map(citation => {
+                                const source = notebook.sources.find(s => s.id === citation.sourceId);
+                                const stale = !!source && isCitationStale(citation, source);
+                                const page = source && !stale && pageAt(source, citation.start);
+                                const time = source?.metadata?.videoId && !stale ? transcriptTimeAt(source, citation.start) : undefined;
+                                return (
+                                    <div key={citation.marker} className="flex items-center bg-slate-800/80 rounded-lg border border-white/5 overflow-hidden">
+                                        <button 
+                                            onClick={() => openCitation(citation)}
+                                            disabled={!source}
+                                            title={stale ? STALE_CITATION_HINT : undefined}
+                                            className="flex items-center gap-1.5 px-2.5 py-1.5 hover:bg-slate-700 text-xs text-slate-300 transition-colors disabled:opacity-40"
+                                        >
+                                            <span className={`font-bold ${stale ? 'text-amber-400' : `text-${theme.colors.primary}-400`}`}>{citation.marker}</span>
+                                            <span className="truncate max-w-[180px]">{source?.title || 'Source removed'}</span>
+                                            {page && <span className="text-slate-500">p. {page}</span>}
+                                            {stale && <span className="text-[10px] font-bold uppercase tracking-wider text-amber-400">Changed</span>}
+                                        </button>
+                                        {time !== undefined && (
+                                            <a 
+                                                href={videoLinkAt(source!.metadata!.videoId, time)}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="flex items-center gap-1 px-2 py-1.5 border-l border-white/5 text-xs text-red-400 hover:text-red-300 hover:bg-slate-700 transition-colors"
+                                                title="Watch this moment on YouTube"
+                                            >
+                                                <ExternalLink size={10} /> {formatTimestamp(time)}
+                                            </a>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
                     {/* Google Search Citations Display */}
                     {msg.groundingMetadata?.groundingChunks && msg.groundingMetadata.groundingChunks.length > 0 && (
                         <div className={`glass-panel p-4 rounded-xl border border-${theme.colors.primary}-500/20 bg-slate-900/50 w-full animate-in fade-in slide-in-from-top-2`}>
@@ -201,17 +495,34 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
       </div>
 
       <form onSubmit={handleSubmit} className="mt-4 relative z-20">
+        {!readOnly && (
+        <div className="flex items-center gap-1 mb-2 p-1 w-fit rounded-xl bg-slate-900/60 border border-white/5">
+            {(Object.keys(CHAT_MODES) as ChatMode[]).map(m => (
+                <button 
+                    key={m}
+                    type="button"
+                    onClick={() => setMode(m)}
+                    disabled={loading}
+                    title={`${CHAT_MODES[m].hint}${activeThread ? ' (this conversation)' : ' (notebook default)'}`}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${mode === m ? `bg-${theme.colors.primary}-500/20 text-${theme.colors.primary}-300` : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                    {m === 'sourcesOnly' ? <BookLock size={12} /> : <Globe size={12} />}
+                    {CHAT_MODES[m].label}
+                </button>
+            ))}
+        </div>
+        )}
         <div className={`glass-panel p-2 rounded-2xl flex items-center gap-2 focus-within:border-${theme.colors.primary}-500/50 focus-within:ring-1 focus-within:ring-${theme.colors.primary}-500/50 transition-all shadow-xl`}>
             <input 
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                placeholder={`Ask about ${notebook.sources.length} sources (and the web)...`}
+                placeholder={`Ask about ${sourceSummary}${mode === 'sourcesAndWeb' ? ' (and the web)' : ''}...`}
                 className="flex-1 bg-transparent p-4 outline-none text-slate-100 placeholder-slate-500 font-medium"
-                disabled={loading || notebook.sources.length === 0}
+                disabled={loading || activeSources.length === 0}
             />
             <button 
                 type="submit"
-                disabled={loading || !input.trim() || notebook.sources.length === 0}
+                disabled={loading || !input.trim() || activeSources.length === 0}
                 className={`p-4 bg-gradient-to-br from-${theme.colors.primary}-600 to-${theme.colors.secondary}-600 hover:from-${theme.colors.primary}-500 hover:to-${theme.colors.secondary}-500 disabled:from-slate-800 disabled:to-slate-800 disabled:text-slate-600 rounded-xl text-white transition-all shadow-lg hover:shadow-${theme.colors.primary}-500/25 transform hover:scale-105`}
             >
                 <Send size={20} />
@@ -220,7 +531,11 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
         {notebook.sources.length === 0 && (
             <p className={`text-center text-xs text-${theme.colors.accent}-400 mt-3 font-medium animate-pulse`}>Add sources in the Sources tab to start chatting.</p>
         )}
+        {notebook.sources.length > 0 && activeSources.length === 0 && (
+            <p className={`text-center text-xs text-${theme.colors.accent}-400 mt-3 font-medium`}>All sources are switched off. Select at least one in the Sources tab.</p>
+        )}
       </form>
+      </div>
     </div>
   );
 };
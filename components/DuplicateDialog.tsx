@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Source } from '../types';
+import { Copy, SkipForward, GitMerge, Layers } from 'lucide-react';
+import { useTheme } from '../contexts';
+import { DuplicateMatch, describeDuplicate } from '../services/dedupe';
+
+export type DuplicateAction = 'skip' | 'merge' | 'keep';
+
+interface Props {
+  incoming: Source;
+  match: DuplicateMatch;
+  remaining: number;        // Further duplicates queued after this one
+  onResolve: (action: DuplicateAction, applyToAll: boolean) => void;
+}
+
+const describeSource = (source: Source) =>
+  source.metadata?.originalUrl || source.metadata?.filename || `${source.content.length.toLocaleString()} chars`;
+
+const DuplicateDialog: React.FC<Props> = ({ incoming, match, remaining, onResolve }) => {
+  const { theme } = useTheme();
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  const actions: { action: DuplicateAction; icon: React.ElementType; label: string; hint: string }[] = [
+    { action: 'skip', icon: SkipForward, label: 'Skip', hint: "Don't add the new copy." },
+    { action: 'merge', icon: GitMerge, label: 'Merge', hint: 'Keep one source; the fuller text wins and the other is kept as a version.' },
+    { action: 'keep', icon: Layers, label: 'Keep both', hint: 'Add the new copy as a separate source.' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[110] flex items-center justify-center p-4">
+        <div className="glass-panel w-full max-w-lg rounded-2xl p-6 flex flex-col animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl">
+            <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-1">
+                <Copy size={20} className="text-amber-400" /> Possible duplicate
+            </h3>
+            <p className="text-xs text-amber-300/80 mb-4">{describeDuplicate(match)}{remaining > 0 && ` • ${remaining} more after this`}</p>
+
+            <div className="space-y-2 mb-5 text-sm">
+                {[{ label: 'New', source: incoming }, { label: 'Already in notebook', source: match.source }].map(({ label, source }) => (
+                    <div key={label} className="p-3 rounded-xl bg-black/30 border border-white/5 min-w-0">
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{label}</p>
+                        <p className="text-slate-200 font-medium truncate">{source.title}</p>
+                        <p className="text-xs text-slate-500 truncate">{describeSource(source)}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+                {actions.map(({ action, icon: Icon, label, hint }) => (
+                    <button
+                        key={action}
+                        onClick={() => onResolve(action, applyToAll)}
+                        title={hint}
+                        className={`flex flex-col items-center gap-1.5 p-3 rounded-xl border border-white/10 text-sm font-medium transition-colors ${action === 'skip' ? `bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 text-white` : 'bg-white/5 hover:bg-white/10 text-slate-200'}`}
+                    >
+                        <Icon size={18} /> {label}
+                    </button>
+                ))}
+            </div>
+
+            {remaining > 0 && (
+                <label className="flex items-center gap-2 mt-4 text-xs text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={applyToAll} onChange={(e) => setApplyToAll(e.target.checked)} />
+                    Do the same for the {remaining} remaining duplicate{remaining === 1 ? '' : 's'}
+                </label>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default DuplicateDialog;
@@ -6,6 +6,7 @@ import { Modality } from '@google/genai';
 import { Mic, MicOff, PhoneOff, Activity, Swords, Users, Shield, Info } from 'lucide-react';
 import { base64ToUint8Array, arrayBufferToBase64, convertFloat32ToInt16 } from '../services/audioUtils';
 import { useTheme } from '../contexts';
+import { getActiveSources } from '../services/sources';
 
 interface Props {
   notebook: Notebook;
@@ -95,7 +96,7 @@ const LiveSession: React.FC<Props> = ({ notebook }) => {
         
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
         
-        const sourceContext = (notebook.sources || []).map(s => `Title: ${s.title}\nContent: ${s.content.substring(0, 1000)}...`).join('\n\n');
+        const sourceContext = getActiveSources(notebook).map(s => `Title: ${s.title}\nContent: ${s.content.substring(0, 1000)}...`).join('\n\n');
         const TARGET_RATE = 24000; 
         
         let sysInstruction = "";
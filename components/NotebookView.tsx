@@ -1,28 +1,43 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Notebook, Source } from '../types';
-import { ArrowLeft, MessageSquare, Layers, FolderOpen, Palette, ChevronLeft, ChevronRight, Edit2, Check, X, Share2, Copy } from 'lucide-react';
+import { ArrowLeft, MessageSquare, Layers, FolderOpen, Palette, ChevronLeft, ChevronRight, Edit2, Check, X, Share2, Copy, Download, Loader2, Eye, GitFork, FileDown, StickyNote } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import SourcesTab from './SourcesTab';
 import ChatTab from './ChatTab';
 import StudioTab from './StudioTab';
+import NotesTab from './NotesTab';
+import SourceViewer, { SourceSpan } from './SourceViewer';
 import { THEMES } from '../constants';
-import { useTheme } from '../contexts';
+import { useTheme, useJobs } from '../contexts';
+import { exportNotebookBundle, downloadBlob, bundleFileName } from '../services/bundle';
+import { createShareLink, createShareFile } from '../services/share';
+import { indexSources } from '../services/retrieval';
+import { deriveReference } from '../services/citations';
+import { citedPassages } from '../services/sources';
 import { NebulaLogo, ThemeSelector } from './ThemeUI';
 
 interface Props {
   notebook: Notebook;
   onUpdate: (nb: Notebook) => void;
+  readOnly?: boolean;         // Shared snapshot viewer: chat and viewing only
+  onFork?: () => void;
 }
 
-type Tab = 'sources' | 'chat' | 'studio';
+type Tab = 'sources' | 'chat' | 'notes' | 'studio';
 
-const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
+const NotebookView: React.FC<Props> = ({ notebook, onUpdate, readOnly = false, onFork }) => {
   const [activeTab, setActiveTab] = useState<Tab>('sources');
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const { theme, setThemeId } = useTheme();
   const [showThemeMenu, setShowThemeMenu] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'preparing' | 'ready' | 'tooLarge' | 'error'>('idle');
+  const { notify } = useJobs();
+  const [viewingSource, setViewingSource] = useState<{ sourceId: string; highlight?: SourceSpan } | null>(null);
+  const viewedSource = viewingSource && notebook.sources.find(s => s.id === viewingSource.sourceId);
   
   // Title Editing State
   const [isEditingTitle, setIsEditingTitle] = useState(false);
@@ -39,28 +54,94 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
       setIsEditingTitle(false);
   };
 
-  const addSource = (source: Source) => {
-    const updated = {
-      ...notebook,
-      sources: [...notebook.sources, source],
+  // Imports, crawls and refreshes finish after later renders; always write against the latest notebook
+  const notebookRef = useRef(notebook);
+  notebookRef.current = notebook;
+
+  const addSources = (newSources: Source[]) => {
+    indexSources(newSources);
+    // Pre-fill references from ingestion metadata; the user refines them later
+    const withReferences = newSources.map(s => s.reference ? s : { ...s, reference: deriveReference(s) });
+    const latest = notebookRef.current;
+    onUpdate({
+      ...latest,
+      sources: [...latest.sources, ...withReferences],
       updatedAt: Date.now()
-    };
-    onUpdate(updated);
+    });
+  };
+
+  // Replaces sources in place by id (refreshes keep the id so citations stay valid)
+  const updateSources = (changed: Source[]) => {
+    if (changed.length === 0) return;
+    indexSources(changed);
+    const byId = new Map(changed.map(s => [s.id, s]));
+    const latest = notebookRef.current;
+    onUpdate({
+      ...latest,
+      sources: latest.sources.map(s => byId.get(s.id) || s),
+      updatedAt: Date.now()
+    });
   };
 
   const deleteSource = (sourceId: string) => {
     const updated = {
         ...notebook,
         sources: notebook.sources.filter(s => s.id !== sourceId),
+        excludedSourceIds: notebook.excludedSourceIds?.filter(id => id !== sourceId),
         updatedAt: Date.now()
     };
     onUpdate(updated);
   };
 
-  const handleShare = () => {
-      navigator.clipboard.writeText(`https://nebulamind.ai/notebook/${notebook.id}`);
-      alert("Notebook link copied to clipboard!");
-      setShowShareModal(false);
+  const setSourcesActive = (sourceIds: string[], active: boolean) => {
+    const excluded = new Set(notebook.excludedSourceIds || []);
+    sourceIds.forEach(id => active ? excluded.delete(id) : excluded.add(id));
+    onUpdate({ ...notebook, excludedSourceIds: Array.from(excluded), updatedAt: Date.now() });
+  };
+
+  const handleExport = async () => {
+      if (isExporting) return;
+      setIsExporting(true);
+      try {
+          const bundle = await exportNotebookBundle(notebook.id);
+          downloadBlob(bundle, bundleFileName(notebook.title));
+          notify("Export Complete", `"${notebook.title}" was saved as a bundle file.`, 'success');
+      } catch (e: any) {
+          console.error("Export failed", e);
+          notify("Export Failed", e.message || "Could not export this notebook.", 'error');
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
+  const openShareModal = async () => {
+      setShowShareModal(true);
+      setShareLink(null);
+      setShareStatus('preparing');
+      try {
+          const link = await createShareLink(notebook.id);
+          setShareLink(link);
+          setShareStatus(link ? 'ready' : 'tooLarge');
+      } catch (e) {
+          console.error("Share link failed", e);
+          setShareStatus('error');
+      }
+  };
+
+  const handleCopyLink = () => {
+      if (!shareLink) return;
+      navigator.clipboard.writeText(shareLink);
+      notify("Link Copied", "Anyone who opens it gets a read-only snapshot of this notebook as it is now.", 'success');
+  };
+
+  const handleDownloadShareFile = async () => {
+      try {
+          const file = await createShareFile(notebook.id);
+          downloadBlob(file, bundleFileName(`${notebook.title}-shared`));
+      } catch (e: any) {
+          console.error("Share file failed", e);
+          notify("Share Failed", e.message || "Could not create a share file.", 'error');
+      }
   };
 
   return (
@@ -113,16 +194,21 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
                                 {notebook.title}
                             </h1>
                             <p className="text-xs text-slate-500 mt-2 flex items-center gap-2">
-                                <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
-                                Online
+                                {readOnly ? (
+                                    <><Eye size={12} /> Read-only snapshot</>
+                                ) : (
+                                    <><span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span> Online</>
+                                )}
                             </p>
                          </div>
-                         <button 
-                            onClick={() => setIsEditingTitle(true)}
-                            className="text-slate-600 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                            <Edit2 size={12} />
-                        </button>
+                         {!readOnly && (
+                            <button 
+                                onClick={() => setIsEditingTitle(true)}
+                                className="text-slate-600 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                                <Edit2 size={12} />
+                            </button>
+                         )}
                     </div>
                 )}
             </div>
@@ -154,6 +240,20 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
                 <span className="text-[10px] md:text-sm font-medium">Chat</span>
             </button>
 
+            <button 
+                onClick={() => setActiveTab('notes')}
+                title="Notes"
+                className={`flex flex-col md:flex-row items-center gap-1 md:gap-3 p-2 md:px-4 md:py-3.5 rounded-xl transition-all w-full
+                ${activeTab === 'notes' ? `text-${theme.colors.primary}-400 bg-white/5 md:bg-${theme.colors.primary}-900/20 border-t-2 md:border-t-0 border-${theme.colors.primary}-500 md:border-${theme.colors.primary}-500/20` : 'text-slate-400 hover:text-slate-200 hover:bg-white/5 border-t-2 md:border-t-0 border-transparent'}
+                ${isSidebarCollapsed ? 'md:justify-center md:px-2' : ''}`}
+            >
+                <StickyNote size={20} className="md:w-5 md:h-5" />
+                <span className="text-[10px] md:text-sm font-medium">Notes</span>
+                {!isSidebarCollapsed && (notebook.notes || []).length > 0 && (
+                     <span className={`hidden md:block ml-auto text-xs ${activeTab === 'notes' ? `bg-${theme.colors.primary}-500/20 text-${theme.colors.primary}-300` : 'bg-slate-800 text-slate-500'} px-2 py-0.5 rounded-full transition-colors`}>{notebook.notes.length}</span>
+                )}
+            </button>
+
             <button 
                 onClick={() => setActiveTab('studio')}
                 title="Studio"
@@ -216,13 +316,35 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
                     <ThemeSelector />
                  </div>
 
-                 <button 
-                    onClick={() => setShowShareModal(true)}
-                    className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-full text-xs md:text-sm font-medium text-slate-300 hover:text-white transition-all border border-white/5"
-                 >
-                    <Share2 size={16} />
-                    <span className="hidden sm:inline">Share Notebook</span>
-                 </button>
+                 {readOnly ? (
+                    <button 
+                        onClick={onFork}
+                        className={`flex items-center gap-2 px-4 py-2 bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 rounded-full text-xs md:text-sm font-bold text-white transition-all shadow-lg shadow-${theme.colors.primary}-900/20`}
+                    >
+                        <GitFork size={16} />
+                        <span>Fork to My Notebooks</span>
+                    </button>
+                 ) : (
+                    <>
+                        <button 
+                            onClick={handleExport}
+                            disabled={isExporting}
+                            title="Export notebook as a bundle file"
+                            className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-full text-xs md:text-sm font-medium text-slate-300 hover:text-white transition-all border border-white/5 disabled:opacity-50"
+                        >
+                            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                            <span className="hidden sm:inline">Export</span>
+                        </button>
+
+                        <button 
+                            onClick={openShareModal}
+                            className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-full text-xs md:text-sm font-medium text-slate-300 hover:text-white transition-all border border-white/5"
+                        >
+                            <Share2 size={16} />
+                            <span className="hidden sm:inline">Share Notebook</span>
+                        </button>
+                    </>
+                 )}
             </div>
         </header>
 
@@ -233,7 +355,17 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
             {activeTab === 'sources' && (
                 <div className="absolute inset-0 overflow-y-auto overflow-x-hidden p-4 md:p-8 pb-24 md:pb-8">
                     <div className="max-w-6xl mx-auto">
-                        <SourcesTab sources={notebook.sources} onAddSource={addSource} onDeleteSource={deleteSource} />
+                        <SourcesTab 
+                            notebookId={notebook.id}
+                            sources={notebook.sources} 
+                            excludedSourceIds={notebook.excludedSourceIds || []}
+                            onAddSources={addSources} 
+                            onUpdateSources={updateSources}
+                            onDeleteSource={deleteSource} 
+                            onSetSourcesActive={setSourcesActive}
+                            onViewSource={(sourceId) => setViewingSource({ sourceId })}
+                            readOnly={readOnly} 
+                        />
                     </div>
                 </div>
             )}
@@ -241,8 +373,17 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
             {/* Chat Tab Container (Internal Scroll) */}
             {activeTab === 'chat' && (
                 <div className="absolute inset-0 pb-20 md:pb-0 p-4 md:p-8">
-                    <div className="max-w-4xl mx-auto h-full">
-                        <ChatTab notebook={notebook} />
+                    <div className="max-w-6xl mx-auto h-full">
+                        <ChatTab notebook={notebook} onUpdate={onUpdate} onOpenSource={(sourceId, highlight) => setViewingSource({ sourceId, highlight })} readOnly={readOnly} />
+                    </div>
+                </div>
+            )}
+
+            {/* Notes Tab Container (Internal Scroll) */}
+            {activeTab === 'notes' && (
+                <div className="absolute inset-0 pb-20 md:pb-0 p-4 md:p-8">
+                    <div className="max-w-6xl mx-auto h-full">
+                        <NotesTab notebook={notebook} onUpdate={onUpdate} readOnly={readOnly} />
                     </div>
                 </div>
             )}
@@ -251,12 +392,17 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
             {activeTab === 'studio' && (
                 <div className="absolute inset-0 pb-20 md:pb-0 p-4 md:p-8 overflow-hidden">
                     <div className="max-w-6xl mx-auto h-full">
-                        <StudioTab notebook={notebook} onUpdate={onUpdate} />
+                        <StudioTab notebook={notebook} onUpdate={onUpdate} onOpenSource={(sourceId, highlight) => setViewingSource({ sourceId, highlight })} readOnly={readOnly} />
                     </div>
                 </div>
             )}
         </div>
 
+        {/* Source Viewer (full text, opened from source cards and citations) */}
+        {viewedSource && (
+            <SourceViewer source={viewedSource} highlight={viewingSource?.highlight} passages={citedPassages(notebook, viewedSource)} onClose={() => setViewingSource(null)} />
+        )}
+
         {/* Share Modal */}
         {showShareModal && (
             <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
@@ -266,16 +412,27 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
                         <button onClick={() => setShowShareModal(false)} className="text-slate-400 hover:text-white"><X size={20}/></button>
                     </div>
                     <div className="space-y-4">
-                        <p className="text-slate-400 text-sm">Anyone with the link can view this notebook.</p>
+                        <p className="text-slate-400 text-sm">Recipients get a read-only snapshot of this notebook as it is right now. They can chat with it and view artifacts, or fork it into their own notebooks. Later edits are not shared.</p>
                         <div className="flex items-center gap-2 bg-black/50 p-3 rounded-lg border border-white/10">
-                            <span className="text-slate-300 text-sm truncate flex-1">https://nebulamind.ai/notebook/{notebook.id}</span>
-                            <button onClick={handleShare} className={`text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300 p-2 hover:bg-white/5 rounded-lg transition-colors`}>
-                                <Copy size={16} />
+                            <span className="text-slate-300 text-sm truncate flex-1">
+                                {shareStatus === 'preparing' && 'Preparing snapshot link...'}
+                                {shareStatus === 'ready' && shareLink}
+                                {shareStatus === 'tooLarge' && 'Notebook is too large for a link. Share the file instead.'}
+                                {shareStatus === 'error' && 'Could not create a link. Share the file instead.'}
+                            </span>
+                            <button onClick={handleCopyLink} disabled={!shareLink} className={`text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300 p-2 hover:bg-white/5 rounded-lg transition-colors disabled:opacity-40`}>
+                                {shareStatus === 'preparing' ? <Loader2 size={16} className="animate-spin" /> : <Copy size={16} />}
                             </button>
                         </div>
-                        <button onClick={handleShare} className={`w-full py-3 bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 text-white rounded-xl font-bold mt-4 shadow-lg shadow-${theme.colors.primary}-900/20`}>
+                        {shareStatus === 'ready' && (
+                            <p className="text-xs text-slate-500">Links leave out synthesized podcast audio. Use the share file to include it.</p>
+                        )}
+                        <button onClick={handleCopyLink} disabled={!shareLink} className={`w-full py-3 bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 text-white rounded-xl font-bold mt-4 shadow-lg shadow-${theme.colors.primary}-900/20 disabled:opacity-50 disabled:cursor-not-allowed`}>
                             Copy Link
                         </button>
+                        <button onClick={handleDownloadShareFile} className="w-full py-3 bg-white/5 hover:bg-white/10 text-slate-200 rounded-xl font-bold border border-white/10 flex items-center justify-center gap-2 transition-colors">
+                            <FileDown size={16} /> Download Share File
+                        </button>
                     </div>
                 </div>
             </div>
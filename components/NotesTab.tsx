@@ -0,0 +1,223 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Notebook, Note } from '../types';
+import { Plus, StickyNote, Trash2, Bold, Italic, Heading2, List, ListOrdered, FileUp, MessageSquare, CheckCircle2 } from 'lucide-react';
+import { useTheme, useJobs } from '../contexts';
+import { createNote, noteToSource, sanitizeNoteHtml } from '../services/notes';
+import { indexSources } from '../services/retrieval';
+
+interface Props {
+  notebook: Notebook;
+  onUpdate: (nb: Notebook) => void;
+  readOnly?: boolean;
+}
+
+const SAVE_DELAY_MS = 600;
+
+const FORMAT_ACTIONS = [
+  { command: 'bold', icon: Bold, label: 'Bold' },
+  { command: 'italic', icon: Italic, label: 'Italic' },
+  { command: 'formatBlock', value: 'h2', icon: Heading2, label: 'Heading' },
+  { command: 'insertUnorderedList', icon: List, label: 'Bullet list' },
+  { command: 'insertOrderedList', icon: ListOrdered, label: 'Numbered list' },
+];
+
+const NotesTab: React.FC<Props> = ({ notebook, onUpdate, readOnly = false }) => {
+  const notes = [...(notebook.notes || [])].sort((a, b) => b.updatedAt - a.updatedAt);
+  const [activeNoteId, setActiveNoteId] = useState<string | null>(notes[0]?.id ?? null);
+  const activeNote = notes.find(n => n.id === activeNoteId) || null;
+
+  const { theme } = useTheme();
+  const { notify } = useJobs();
+  const editorRef = useRef<HTMLDivElement>(null);
+  const saveTimer = useRef<number | null>(null);
+  const pending = useRef<{ id: string; changes: Partial<Note> } | null>(null);
+
+  // Debounced saves run after renders; always write against the latest notebook
+  const notebookRef = useRef(notebook);
+  notebookRef.current = notebook;
+
+  const updateNote = (id: string, changes: Partial<Note>, extra: Partial<Notebook> = {}) => {
+      const latest = notebookRef.current;
+      onUpdate({
+          ...latest,
+          ...extra,
+          notes: (latest.notes || []).map(n => n.id === id ? { ...n, ...changes, updatedAt: Date.now() } : n),
+          updatedAt: Date.now()
+      });
+  };
+
+  const flushPending = () => {
+      if (saveTimer.current) window.clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+      if (pending.current) {
+          const { id, changes } = pending.current;
+          pending.current = null;
+          updateNote(id, changes);
+      }
+  };
+
+  const scheduleSave = (id: string, changes: Partial<Note>) => {
+      pending.current = { id, changes: { ...(pending.current?.id === id ? pending.current.changes : {}), ...changes } };
+      if (saveTimer.current) window.clearTimeout(saveTimer.current);
+      saveTimer.current = window.setTimeout(flushPending, SAVE_DELAY_MS);
+  };
+
+  useEffect(() => () => flushPending(), []);
+
+  // The editor is uncontrolled; load content only when switching notes
+  useEffect(() => {
+      if (editorRef.current) editorRef.current.innerHTML = sanitizeNoteHtml(activeNote?.content || '');
+  }, [activeNoteId]);
+
+  const selectNote = (id: string | null) => {
+      flushPending();
+      setActiveNoteId(id);
+  };
+
+  const handleNewNote = () => {
+      flushPending();
+      const note = createNote('Untitled note', '');
+      const latest = notebookRef.current;
+      onUpdate({ ...latest, notes: [note, ...(latest.notes || [])], updatedAt: Date.now() });
+      setActiveNoteId(note.id);
+  };
+
+  const handleDeleteNote = (id: string) => {
+      if (!confirm("Delete this note? A source promoted from it is kept.")) return;
+      if (pending.current?.id === id) pending.current = null;
+      const latest = notebookRef.current;
+      onUpdate({ ...latest, notes: (latest.notes || []).filter(n => n.id !== id), updatedAt: Date.now() });
+      if (id === activeNoteId) setActiveNoteId(null);
+  };
+
+  const applyFormat = (command: string, value?: string) => {
+      editorRef.current?.focus();
+      document.execCommand(command, false, value);
+      if (activeNote && editorRef.current) scheduleSave(activeNote.id, { content: editorRef.current.innerHTML });
+  };
+
+  // Creates a source from the note, or refreshes the one it was promoted to before
+  const handlePromote = (note: Note) => {
+      flushPending();
+      const latest = notebookRef.current;
+      const current = (latest.notes || []).find(n => n.id === note.id) || note;
+      const existing = latest.sources.find(s => s.id === current.promotedSourceId);
+      const source = noteToSource(current, existing);
+      if (!source.content) {
+          notify("Empty note", "Write something before adding this note as a source.", 'info');
+          return;
+      }
+      indexSources([source]);
+      updateNote(current.id, { promotedSourceId: source.id }, {
+          sources: existing ? latest.sources.map(s => s.id === source.id ? source : s) : [...latest.sources, source]
+      });
+      notify(existing ? "Source updated" : "Added to sources", `"${current.title}" is now used for grounding.`, 'success');
+  };
+
+  const promotedSource = activeNote?.promotedSourceId && notebook.sources.find(s => s.id === activeNote.promotedSourceId);
+
+  return (
+    <div className="h-full flex flex-col md:flex-row gap-6">
+        {/* Note List */}
+        <aside className="md:w-72 shrink-0 flex flex-col glass-panel rounded-2xl border border-white/5 p-3 gap-2 max-h-64 md:max-h-none">
+            {!readOnly && (
+                <button
+                    onClick={handleNewNote}
+                    className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl text-sm font-bold text-white bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 transition-colors`}
+                >
+                    <Plus size={16} /> New Note
+                </button>
+            )}
+            <div className="flex-1 overflow-y-auto space-y-1 custom-scrollbar">
+                {notes.length === 0 && (
+                    <p className="text-xs text-slate-500 px-1 py-2">No notes yet. Write one, or use "Save to note" on a chat answer.</p>
+                )}
+                {notes.map(note => (
+                    <div
+                        key={note.id}
+                        onClick={() => selectNote(note.id)}
+                        className={`group flex items-start gap-2 px-2 py-2 rounded-lg cursor-pointer transition-colors ${note.id === activeNoteId ? `bg-${theme.colors.primary}-500/15 text-${theme.colors.primary}-300` : 'text-slate-400 hover:bg-white/5 hover:text-slate-200'}`}
+                    >
+                        {note.origin ? <MessageSquare size={14} className="shrink-0 mt-0.5" /> : <StickyNote size={14} className="shrink-0 mt-0.5" />}
+                        <div className="flex-1 min-w-0">
+                            <p className="text-xs font-medium truncate">{note.title}</p>
+                            <p className="text-[10px] text-slate-500">
+                                {new Date(note.updatedAt).toLocaleDateString()}
+                                {notebook.sources.some(s => s.id === note.promotedSourceId) && ' • In sources'}
+                            </p>
+                        </div>
+                        {!readOnly && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); handleDeleteNote(note.id); }}
+                                className="p-1 text-slate-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                title="Delete"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </aside>
+
+        {/* Editor */}
+        <section className="flex-1 min-w-0 flex flex-col glass-panel rounded-2xl border border-white/5 overflow-hidden">
+            {activeNote ? (
+                <>
+                    <div className="p-4 border-b border-white/5 flex flex-wrap items-center gap-3">
+                        <input
+                            key={activeNote.id}
+                            defaultValue={activeNote.title}
+                            onChange={(e) => scheduleSave(activeNote.id, { title: e.target.value.trim() || 'Untitled note' })}
+                            onBlur={flushPending}
+                            readOnly={readOnly}
+                            className="flex-1 min-w-[160px] bg-transparent text-lg font-bold text-white outline-none placeholder-slate-600"
+                            placeholder="Note title"
+                        />
+                        {!readOnly && (
+                            <button
+                                onClick={() => handlePromote(activeNote)}
+                                className={`flex items-center gap-2 text-xs font-medium px-3 py-1.5 rounded-lg transition-colors bg-${theme.colors.primary}-500/10 text-${theme.colors.primary}-300 hover:bg-${theme.colors.primary}-500/20`}
+                                title="Use this note as a source for chat, Studio and audio"
+                            >
+                                {promotedSource ? <CheckCircle2 size={14} /> : <FileUp size={14} />}
+                                {promotedSource ? 'Update Source' : 'Add as Source'}
+                            </button>
+                        )}
+                    </div>
+                    {!readOnly && (
+                        <div className="px-4 py-2 border-b border-white/5 flex items-center gap-1">
+                            {FORMAT_ACTIONS.map(({ command, value, icon: Icon, label }) => (
+                                <button
+                                    key={label}
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => applyFormat(command, value)}
+                                    className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+                                    title={label}
+                                >
+                                    <Icon size={14} />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div
+                        ref={editorRef}
+                        contentEditable={!readOnly}
+                        suppressContentEditableWarning
+                        onInput={(e) => scheduleSave(activeNote.id, { content: e.currentTarget.innerHTML })}
+                        onBlur={flushPending}
+                        className="flex-1 overflow-y-auto p-6 outline-none text-slate-200 leading-relaxed text-[15px] [&_h2]:text-xl [&_h2]:font-bold [&_h2]:text-white [&_h2]:mt-4 [&_h2]:mb-2 [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_p]:mb-3"
+                    />
+                </>
+            ) : (
+                <div className="flex-1 flex flex-col items-center justify-center text-slate-500 p-8 text-center">
+                    <StickyNote size={32} className="text-slate-600 mb-4" />
+                    <p className="text-sm">Select a note or create a new one.</p>
+                </div>
+            )}
+        </section>
+    </div>
+  );
+};
+
+export default NotesTab;
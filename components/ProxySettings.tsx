@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { X, Network, ArrowUp, ArrowDown, Trash2, Plus, Activity, RotateCcw, Loader2 } from 'lucide-react';
+import { useTheme } from '../contexts';
+import {
+  FetchProxy, ProxyHealth, DEFAULT_PROXIES, DEFAULT_TIMEOUT_MS,
+  loadProxies, saveProxies, loadProxyHealth, subscribeProxyHealth, testProxy
+} from '../services/proxy';
+
+interface Props {
+  onClose: () => void;
+}
+
+const HealthBadge: React.FC<{ health?: ProxyHealth }> = ({ health }) => {
+  if (!health) return <span className="text-[10px] text-slate-500">Not checked yet</span>;
+  const when = new Date(health.checkedAt).toLocaleTimeString();
+  return health.status === 'ok' ? (
+      <span className="flex items-center gap-1.5 text-[10px] text-emerald-400" title={`Checked ${when}`}>
+          <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" /> Healthy{health.latencyMs !== undefined && ` • ${health.latencyMs} ms`}
+      </span>
+  ) : (
+      <span className="flex items-center gap-1.5 text-[10px] text-rose-400 truncate" title={`Checked ${when}: ${health.error}`}>
+          <span className="w-1.5 h-1.5 rounded-full bg-rose-400 shrink-0" /> Failing • {health.error}
+      </span>
+  );
+};
+
+const ProxySettings: React.FC<Props> = ({ onClose }) => {
+  const { theme } = useTheme();
+  const [proxies, setProxies] = useState<FetchProxy[]>(loadProxies);
+  const [health, setHealth] = useState<Record<string, ProxyHealth>>(loadProxyHealth);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  useEffect(() => subscribeProxyHealth(setHealth), []);
+
+  const update = (next: FetchProxy[]) => {
+      setProxies(next);
+      saveProxies(next);
+  };
+
+  const patch = (id: string, changes: Partial<FetchProxy>) =>
+      update(proxies.map(p => p.id === id ? { ...p, ...changes } : p));
+
+  const move = (index: number, delta: number) => {
+      const next = [...proxies];
+      const [item] = next.splice(index, 1);
+      next.splice(index + delta, 0, item);
+      update(next);
+  };
+
+  const handleAdd = () => update([...proxies, {
+      id: crypto.randomUUID(), name: 'Custom proxy', template: 'https://proxy.example.com/?url={url}', enabled: true, timeoutMs: DEFAULT_TIMEOUT_MS
+  }]);
+
+  const handleTest = async (proxy: FetchProxy) => {
+      setTesting(proxy.id);
+      await testProxy(proxy);
+      setTesting(null);
+  };
+
+  const inputClass = `bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[110] flex items-center justify-center p-4" onClick={onClose}>
+        <div className="glass-panel w-full max-w-2xl rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-start gap-4 mb-2">
+                <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                    <Network size={20} className={`text-${theme.colors.primary}-400`} /> Fetch Proxy
+                </h3>
+                <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors">
+                    <X size={20} />
+                </button>
+            </div>
+            <p className="text-xs text-slate-500 mb-4 leading-relaxed">
+                Websites and YouTube captions are fetched through these proxies, top to bottom, until one succeeds.
+                Use <code className="text-slate-300">{'{url}'}</code> where the page address goes. The local proxy runs with <code className="text-slate-300">npm run dev</code> or <code className="text-slate-300">npm run preview</code>; public proxies see every URL you import.
+            </p>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3 pr-1">
+                {proxies.map((proxy, index) => (
+                    <div key={proxy.id} className={`p-4 rounded-xl border border-white/10 bg-black/20 space-y-3 ${proxy.enabled ? '' : 'opacity-60'}`}>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => patch(proxy.id, { enabled: !proxy.enabled })}
+                                className={`w-10 h-5 rounded-full relative transition-colors shrink-0 ${proxy.enabled ? `bg-${theme.colors.primary}-600` : 'bg-slate-700'}`}
+                                title={proxy.enabled ? 'Enabled' : 'Disabled'}
+                            >
+                                <div className={`absolute top-1 w-3 h-3 rounded-full bg-white transition-all shadow-sm ${proxy.enabled ? 'left-6' : 'left-1'}`}></div>
+                            </button>
+                            <input
+                                value={proxy.name}
+                                onChange={(e) => patch(proxy.id, { name: e.target.value })}
+                                className="flex-1 min-w-0 bg-transparent font-semibold text-sm text-white outline-none"
+                            />
+                            <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-30" title="Try earlier">
+                                <ArrowUp size={14} />
+                            </button>
+                            <button onClick={() => move(index, 1)} disabled={index === proxies.length - 1} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-30" title="Try later">
+                                <ArrowDown size={14} />
+                            </button>
+                            <button onClick={() => update(proxies.filter(p => p.id !== proxy.id))} className="p-1.5 rounded-lg text-slate-500 hover:text-rose-400 hover:bg-rose-500/10" title="Remove">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                value={proxy.template}
+                                onChange={(e) => patch(proxy.id, { template: e.target.value })}
+                                className={`${inputClass} flex-1 min-w-0 font-mono text-xs`}
+                                placeholder="https://proxy.example.com/?url={url}"
+                            />
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 shrink-0">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={Math.round(proxy.timeoutMs / 1000)}
+                                    onChange={(e) => patch(proxy.id, { timeoutMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                                    className={`${inputClass} w-16`}
+                                />
+                                s
+                            </label>
+                        </div>
+                        <div className="flex items-center justify-between gap-3">
+                            <HealthBadge health={health[proxy.id]} />
+                            <button
+                                onClick={() => handleTest(proxy)}
+                                disabled={testing !== null}
+                                className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white px-2 py-1 rounded-lg hover:bg-white/5 disabled:opacity-50 shrink-0"
+                            >
+                                {testing === proxy.id ? <Loader2 size={12} className="animate-spin" /> : <Activity size={12} />} Test
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                {proxies.length === 0 && (
+                    <p className="text-sm text-slate-500 text-center py-6">No proxies configured. Website and YouTube imports will fail until you add one.</p>
+                )}
+            </div>
+
+            <div className="flex justify-between gap-3 mt-4 pt-4 border-t border-white/5">
+                <button onClick={() => update(DEFAULT_PROXIES)} className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-white/5">
+                    <RotateCcw size={14} /> Reset to defaults
+                </button>
+                <button onClick={handleAdd} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold text-white bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 transition-colors`}>
+                    <Plus size={16} /> Add Proxy
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ProxySettings;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Source, SourceReference, ReferenceKind } from '../types';
+import { X, Quote, RotateCcw } from 'lucide-react';
+import { useTheme } from '../contexts';
+import { deriveReference, referenceOf, formatReference, REFERENCE_KINDS } from '../services/citations';
+
+interface Props {
+  source: Source;
+  onSave: (source: Source) => void;
+  onClose: () => void;
+}
+
+const CONTAINER_LABELS: Partial<Record<ReferenceKind, string>> = {
+  article: 'Journal',
+  chapter: 'Book title',
+  conference: 'Proceedings',
+  webpage: 'Website',
+  video: 'Platform',
+};
+
+const ReferenceEditor: React.FC<Props> = ({ source, onSave, onClose }) => {
+  const { theme } = useTheme();
+  const [title, setTitle] = useState(source.title);
+  const [reference, setReference] = useState<SourceReference>(() => referenceOf(source));
+  const [authorsText, setAuthorsText] = useState(reference.authors.join('\n'));
+
+  const update = (changes: Partial<SourceReference>) => setReference({ ...reference, ...changes });
+
+  // Empty fields are dropped rather than stored as ""
+  const draft = (): Source => {
+      const cleaned: Record<string, any> = { ...reference, authors: authorsText.split('\n').map(a => a.trim()).filter(Boolean) };
+      Object.keys(cleaned).forEach(key => { if (typeof cleaned[key] === 'string') cleaned[key] = cleaned[key].trim() || undefined; });
+      return { ...source, title: title.trim() || source.title, reference: cleaned as SourceReference };
+  };
+
+  const resetFromMetadata = () => {
+      const derived = deriveReference(source);
+      setReference(derived);
+      setAuthorsText(derived.authors.join('\n'));
+  };
+
+  const inputClass = `w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`;
+  const field = (label: string, key: keyof SourceReference, placeholder = '') => (
+      <label className="space-y-1">
+          <span>{label}</span>
+          <input
+              value={(reference[key] as string) || ''}
+              onChange={(e) => update({ [key]: e.target.value })}
+              placeholder={placeholder}
+              className={inputClass}
+          />
+      </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={onClose}>
+        <div className="glass-panel w-full max-w-2xl rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-start gap-4 mb-4">
+                <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                    <Quote size={20} className={`text-${theme.colors.primary}-400`} /> Reference
+                </h3>
+                <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors shrink-0">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar pr-1 space-y-3 text-xs text-slate-400">
+                <label className="space-y-1 block">
+                    <span>Title</span>
+                    <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="space-y-1">
+                        <span>Type</span>
+                        <select value={reference.kind} onChange={(e) => update({ kind: e.target.value as ReferenceKind })} className={inputClass}>
+                            {Object.entries(REFERENCE_KINDS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                        </select>
+                    </label>
+                    {field('Published', 'publishedAt', 'YYYY-MM-DD or YYYY')}
+                </div>
+                <label className="space-y-1 block">
+                    <span>Authors • one per line as "Family, Given"; wrap organisations in {'{braces}'}</span>
+                    <textarea
+                        value={authorsText}
+                        onChange={(e) => setAuthorsText(e.target.value)}
+                        rows={3}
+                        placeholder={'Doe, Jane\n{World Health Organization}'}
+                        className={`${inputClass} font-mono resize-none`}
+                    />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                    {field(CONTAINER_LABELS[reference.kind] || 'Published in', 'containerTitle')}
+                    {field('Publisher', 'publisher')}
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                    {field('Volume', 'volume')}
+                    {field('Issue', 'issue')}
+                    {field('Pages', 'pages', '45-67')}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    {field('DOI', 'doi', '10.1000/xyz123')}
+                    {field('Accessed', 'accessedAt', 'YYYY-MM-DD')}
+                </div>
+
+                <div className="p-3 rounded-xl bg-black/30 border border-white/5">
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1">Preview (APA)</p>
+                    <p className="text-sm text-slate-300 leading-relaxed">{formatReference(draft(), 'apa')}</p>
+                </div>
+            </div>
+
+            <div className="flex justify-between gap-3 mt-5">
+                <button onClick={resetFromMetadata} className="flex items-center gap-2 px-4 py-2.5 hover:bg-white/10 rounded-xl transition-colors font-medium text-slate-300" title="Fill the fields again from what was recorded at import">
+                    <RotateCcw size={16} /> Reset
+                </button>
+                <button
+                    onClick={() => { onSave(draft()); onClose(); }}
+                    className={`px-6 py-2.5 bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 rounded-xl font-bold text-white transition-colors`}
+                >
+                    Save Reference
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ReferenceEditor;
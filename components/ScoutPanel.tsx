@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { Source, ScoutConfig, ScoutCandidate, ScoutSourceKind, ScoutRecency, ScoutMission } from '../types';
+import { Radar, Search, Loader2, SlidersHorizontal, ChevronDown, ChevronUp, CheckSquare, Square, ExternalLink, PlusCircle, Plus, AlertTriangle, Copy, Circle, StopCircle, Trash2, RotateCw } from 'lucide-react';
+import { useTheme, useJobs } from '../contexts';
+import { scoutCandidateToSource, DEFAULT_SCOUT_CONFIG } from '../services/ai';
+import { parsePatterns } from '../services/crawl';
+
+interface Props {
+  notebookId: string;
+  onAddSources: (sources: Source[]) => void;
+  onDone: () => void;
+}
+
+const CONFIG_KEY = 'nebula_scout_config';
+const PREVIEW_LENGTH = 280;
+
+const KINDS: { id: ScoutSourceKind; label: string }[] = [
+  { id: 'papers', label: 'Papers' },
+  { id: 'news', label: 'News' },
+  { id: 'docs', label: 'Docs' },
+  { id: 'blogs', label: 'Blogs' },
+];
+
+const RECENCY: { id: ScoutRecency; label: string }[] = [
+  { id: 'any', label: 'Any time' },
+  { id: 'week', label: 'Past week' },
+  { id: 'month', label: 'Past month' },
+  { id: 'year', label: 'Past year' },
+];
+
+const loadConfig = (): ScoutConfig => {
+  try { return { ...DEFAULT_SCOUT_CONFIG, ...JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}') }; }
+  catch (e) { return DEFAULT_SCOUT_CONFIG; }
+};
+
+// Good candidates are preselected up to the requested count; the spares start unchecked
+const preselect = (candidates: ScoutCandidate[], count: number) =>
+  candidates.filter(c => c.fullTextAvailable && !c.outsideRecency).slice(0, count).map(c => c.id);
+
+const STATUS_LABELS: Record<ScoutMission['status'], string> = {
+  searching: 'Searching',
+  fetching: 'Fetching',
+  review: 'Ready for review',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+const isRunning = (mission: ScoutMission) => mission.status === 'searching' || mission.status === 'fetching';
+
+const ScoutPanel: React.FC<Props> = ({ notebookId, onAddSources, onDone }) => {
+  const { theme } = useTheme();
+  const { scoutMissions, startScout, cancelScout, resumeScout, dismissScout } = useJobs();
+  const missions = scoutMissions.filter(m => m.notebookId === notebookId);
+  const [activeId, setActiveId] = useState<string | null>(() => missions[missions.length - 1]?.id ?? null);
+  const mission = missions.find(m => m.id === activeId);
+  const [topic, setTopic] = useState('');
+  const [config, setConfig] = useState<ScoutConfig>(loadConfig);
+  const [showSettings, setShowSettings] = useState(false);
+  // Explicit checks and unchecks; everything else follows preselect()
+  const [picked, setPicked] = useState<Record<string, boolean>>({});
+
+  const updateConfig = (changes: Partial<ScoutConfig>) => {
+      const next = { ...config, ...changes };
+      setConfig(next);
+      localStorage.setItem(CONFIG_KEY, JSON.stringify(next));
+  };
+
+  const showMission = (id: string | null) => {
+      setActiveId(id);
+      setPicked({});
+  };
+
+  const handleScout = () => {
+      if (!topic.trim()) return;
+      showMission(startScout(notebookId, topic.trim(), config));
+      setTopic('');
+  };
+
+  const inputClass = `w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`;
+
+  const missionTabs = missions.length > 0 && (
+      <div className="flex flex-wrap gap-2 mb-4">
+          {missions.map(m => (
+              <button
+                  key={m.id}
+                  onClick={() => showMission(m.id)}
+                  className={`flex items-center gap-1.5 max-w-[220px] px-3 py-1.5 rounded-full border text-xs font-medium transition-colors ${m.id === activeId ? `bg-${theme.colors.primary}-600 border-${theme.colors.primary}-500 text-white` : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                  {isRunning(m) && <Loader2 size={10} className="animate-spin shrink-0" />}
+                  <span className="truncate">{m.topic}</span>
+              </button>
+          ))}
+          <button
+              onClick={() => showMission(null)}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-full border text-xs font-medium transition-colors ${!mission ? 'border-white/30 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+              <Plus size={12} /> New mission
+          </button>
+      </div>
+  );
+
+  // --- MISSION PROGRESS & REVIEW ---
+  if (mission) {
+      const running = isRunning(mission);
+      const candidates = mission.targets.filter(t => t.candidate).map(t => t.candidate!);
+      const defaults = preselect(candidates, mission.config.count);
+      const isSelected = (id: string) => picked[id] ?? defaults.includes(id);
+      const selected = candidates.filter(c => isSelected(c.id));
+      const resumable = !running && (mission.status !== 'review' || mission.targets.some(t => t.status === 'failed' || t.status === 'pending'));
+
+      const handleApprove = () => {
+          onAddSources(selected.map(scoutCandidateToSource));
+          dismissScout(mission.id);
+          onDone();
+      };
+
+      return (
+        <div className="flex flex-col min-h-0 gap-4">
+            {missionTabs}
+            <div className="flex items-center justify-between gap-3 text-sm">
+                <p className="text-slate-400 min-w-0 truncate">
+                    <span className="text-slate-200">"{mission.topic}"</span>
+                    {mission.targets.length > 0 && ` • ${candidates.length} of ${mission.targets.length} fetched`}
+                </p>
+                <span className={`shrink-0 text-xs font-medium ${mission.status === 'failed' ? 'text-rose-400' : mission.status === 'cancelled' ? 'text-amber-400' : `text-${theme.colors.accent}-300`}`}>
+                    {STATUS_LABELS[mission.status]}
+                </span>
+            </div>
+
+            {mission.error && (
+                <div className="p-3 bg-rose-500/10 border border-rose-500/20 text-rose-400 text-sm rounded-lg">
+                    {mission.error}
+                </div>
+            )}
+
+            {mission.status === 'searching' && (
+                <div className="flex flex-col items-center justify-center py-8 space-y-4">
+                    <div className={`relative w-16 h-16 flex items-center justify-center`}>
+                        <div className={`absolute inset-0 rounded-full border-2 border-${theme.colors.accent}-500/30 animate-ping`}></div>
+                        <div className={`absolute inset-2 rounded-full border-2 border-${theme.colors.accent}-500/50 animate-spin`}></div>
+                        <Radar className={`text-${theme.colors.accent}-400 relative z-10`} size={24} />
+                    </div>
+                    <p className={`text-${theme.colors.accent}-300 font-mono text-sm animate-pulse`}>
+                        {mission.progress || "Initializing Scout..."}
+                    </p>
+                </div>
+            )}
+
+            {mission.targets.length > 0 && (
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+                    {mission.targets.map((target, i) => {
+                        const c = target.candidate;
+                        const checked = !!c && isSelected(c.id);
+                        return (
+                            <div
+                                key={i}
+                                onClick={() => c && setPicked({ ...picked, [c.id]: !checked })}
+                                className={`p-4 rounded-xl border transition-colors ${c ? 'cursor-pointer' : ''} ${checked ? `border-${theme.colors.primary}-500/40 bg-${theme.colors.primary}-500/5` : 'border-white/5 bg-black/20'} ${c && !checked ? 'opacity-70 hover:opacity-100' : ''}`}
+                            >
+                                <div className="flex items-start gap-3">
+                                    <span className={`mt-0.5 shrink-0 ${checked ? `text-${theme.colors.primary}-400` : target.status === 'failed' ? 'text-rose-400' : target.status === 'skipped' ? 'text-amber-400' : 'text-slate-600'}`}>
+                                        {c ? (checked ? <CheckSquare size={16} /> : <Square size={16} />)
+                                            : target.status === 'fetching' ? <Loader2 size={16} className="animate-spin" />
+                                            : target.status === 'failed' ? <AlertTriangle size={16} />
+                                            : target.status === 'skipped' ? <Copy size={16} />
+                                            : <Circle size={16} />}
+                                    </span>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-semibold text-slate-200 truncate">{c?.title || target.title}</p>
+                                        <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] text-slate-500">
+                                            <span>{target.domain}</span>
+                                            {c?.publishedAt && !isNaN(Date.parse(c.publishedAt)) && <span>• {new Date(c.publishedAt).toLocaleDateString()}</span>}
+                                            {c && !c.fullTextAvailable && <span className="text-amber-400">• No full text</span>}
+                                            {c?.outsideRecency && <span className="text-amber-400">• Older than requested</span>}
+                                            {target.status === 'pending' && <span>• Waiting</span>}
+                                            <a href={target.url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="flex items-center gap-1 hover:text-slate-300">
+                                                <ExternalLink size={10} /> Open
+                                            </a>
+                                        </div>
+                                        {target.error && (
+                                            <p className={`text-xs mt-2 ${target.status === 'failed' ? 'text-rose-400/80' : 'text-amber-400/80'}`}>
+                                                {target.status === 'skipped' ? `Skipped: ${target.error}` : target.error}
+                                            </p>
+                                        )}
+                                        {c && (
+                                            <p className="text-xs text-slate-400 mt-2 leading-relaxed line-clamp-3">
+                                                {c.content.slice(0, PREVIEW_LENGTH)}{c.content.length > PREVIEW_LENGTH && '…'}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {running && (
+                <p className="text-xs text-slate-500 text-center">
+                    {mission.status === 'fetching' && mission.progress && <span className={`block font-mono text-${theme.colors.accent}-300 mb-1 truncate`}>{mission.progress}</span>}
+                    You can close this window; Scout keeps working in the background.
+                </p>
+            )}
+
+            <div className="flex justify-between gap-3">
+                {running ? (
+                    <button onClick={() => cancelScout(mission.id)} className="flex items-center gap-2 px-4 py-2.5 hover:bg-white/10 rounded-xl transition-colors font-medium text-slate-300">
+                        <StopCircle size={16} /> Cancel Mission
+                    </button>
+                ) : (
+                    <div className="flex gap-2">
+                        <button onClick={() => { dismissScout(mission.id); showMission(null); }} className="flex items-center gap-2 px-4 py-2.5 hover:bg-white/10 rounded-xl transition-colors font-medium text-slate-300">
+                            <Trash2 size={16} /> Discard
+                        </button>
+                        {resumable && (
+                            <button onClick={() => resumeScout(mission.id)} className="flex items-center gap-2 px-4 py-2.5 hover:bg-white/10 rounded-xl transition-colors font-medium text-slate-300">
+                                <RotateCw size={16} /> {mission.targets.length ? 'Resume' : 'Retry'}
+                            </button>
+                        )}
+                    </div>
+                )}
+                <button
+                    onClick={handleApprove}
+                    disabled={running || selected.length === 0}
+                    className={`px-6 py-2.5 bg-gradient-to-r from-${theme.colors.primary}-600 to-${theme.colors.secondary}-600 rounded-xl font-bold transition-all disabled:opacity-50 flex items-center gap-2`}
+                >
+                    <PlusCircle size={18} /> Add {selected.length} Source{selected.length === 1 ? '' : 's'}
+                </button>
+            </div>
+        </div>
+      );
+  }
+
+  // --- MISSION SETUP ---
+  return (
+    <div className="space-y-6 overflow-y-auto pr-1">
+        {missionTabs}
+        <div className={`p-6 bg-${theme.colors.primary}-900/10 border border-${theme.colors.primary}-500/20 rounded-xl`}>
+            <p className="text-sm text-slate-300 mb-4 leading-relaxed">
+                Nebula Scout is an <strong>autonomous research agent</strong>. Give it a topic, and it will search the web, identify high-quality sources, and fetch them for you to review before they join your notebook.
+            </p>
+            <div className="flex w-full gap-2 items-center">
+                <input
+                    className={`flex-1 min-w-0 h-14 bg-slate-900 border border-slate-700 rounded-xl px-4 focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none text-white placeholder-slate-500`}
+                    placeholder="e.g. The future of solid state batteries"
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleScout()}
+                />
+                <button
+                    onClick={handleScout}
+                    disabled={!topic.trim()}
+                    className={`w-14 h-14 shrink-0 rounded-xl font-bold flex items-center justify-center transition-all bg-${theme.colors.accent}-600 hover:bg-${theme.colors.accent}-500 text-white shadow-lg disabled:bg-slate-800 disabled:text-slate-500 disabled:shadow-none`}
+                >
+                    <Search />
+                </button>
+            </div>
+
+            <button
+                onClick={() => setShowSettings(!showSettings)}
+                className="flex items-center gap-2 mt-4 text-xs font-medium text-slate-400 hover:text-white transition-colors"
+            >
+                <SlidersHorizontal size={12} /> Mission settings • {config.count} sources
+                {config.kinds.length > 0 && ` • ${config.kinds.join(', ')}`}
+                {config.recency !== 'any' && ` • past ${config.recency}`}
+                {showSettings ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+            </button>
+
+            {showSettings && (
+                <div className="grid grid-cols-2 gap-3 mt-4 text-xs text-slate-400">
+                    <label className="space-y-1">
+                        <span>Number of sources</span>
+                        <input
+                            type="number" min={1} max={15}
+                            value={config.count}
+                            onChange={(e) => updateConfig({ count: Math.min(15, Math.max(1, Number(e.target.value) || 1)) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="space-y-1">
+                        <span>Recency</span>
+                        <select
+                            value={config.recency}
+                            onChange={(e) => updateConfig({ recency: e.target.value as ScoutRecency })}
+                            className={inputClass}
+                        >
+                            {RECENCY.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                        </select>
+                    </label>
+                    <div className="col-span-2 space-y-1">
+                        <span>Source kinds (none selected = any)</span>
+                        <div className="flex flex-wrap gap-2">
+                            {KINDS.map(kind => {
+                                const on = config.kinds.includes(kind.id);
+                                return (
+                                    <button
+                                        key={kind.id}
+                                        onClick={() => updateConfig({ kinds: on ? config.kinds.filter(k => k !== kind.id) : [...config.kinds, kind.id] })}
+                                        className={`px-3 py-1.5 rounded-full border text-xs font-medium transition-colors ${on ? `bg-${theme.colors.primary}-600 border-${theme.colors.primary}-500 text-white` : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                                    >
+                                        {kind.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                    <label className="space-y-1">
+                        <span>Only these domains</span>
+                        <input
+                            defaultValue={config.allowDomains.join(', ')}
+                            onBlur={(e) => updateConfig({ allowDomains: parsePatterns(e.target.value) })}
+                            placeholder="nature.com, arxiv.org"
+                            className={`${inputClass} font-mono`}
+                        />
+                    </label>
+                    <label className="space-y-1">
+                        <span>Never these domains</span>
+                        <input
+                            defaultValue={config.denyDomains.join(', ')}
+                            onBlur={(e) => updateConfig({ denyDomains: parsePatterns(e.target.value) })}
+                            placeholder="pinterest.com, quora.com"
+                            className={`${inputClass} font-mono`}
+                        />
+                    </label>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default ScoutPanel;
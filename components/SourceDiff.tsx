@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { Source } from '../types';
+import { X, History } from 'lucide-react';
+import { useTheme } from '../contexts';
+import { diffLines, diffStats, DiffLine } from '../services/diff';
+import { sourceVersion } from '../services/sources';
+
+interface Props {
+  source: Source;
+  onClose: () => void;
+}
+
+// Unchanged lines kept around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 2;
+
+type Row = DiffLine | { type: 'fold'; count: number };
+
+const foldUnchanged = (lines: DiffLine[]): Row[] => {
+  const rows: Row[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'same') { rows.push(lines[i++]); continue; }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'same') end++;
+    const run = lines.slice(i, end);
+    const keepHead = i === 0 ? 0 : CONTEXT_LINES;
+    const keepTail = end === lines.length ? 0 : CONTEXT_LINES;
+    if (run.length > keepHead + keepTail + 1) {
+      rows.push(...run.slice(0, keepHead), { type: 'fold', count: run.length - keepHead - keepTail }, ...run.slice(run.length - keepTail));
+    } else {
+      rows.push(...run);
+    }
+    i = end;
+  }
+  return rows;
+};
+
+const SourceDiff: React.FC<Props> = ({ source, onClose }) => {
+  const { theme } = useTheme();
+  const versions = source.versions || [];
+  const [compareTo, setCompareTo] = useState(versions[0]?.version);
+  const previous = versions.find(v => v.version === compareTo) || versions[0];
+
+  const lines = useMemo(() => previous ? diffLines(previous.content, source.content) : [], [previous, source.content]);
+  const stats = diffStats(lines);
+  const rows = foldUnchanged(lines);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={onClose}>
+        <div className="glass-panel w-full max-w-4xl rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-start gap-4 mb-4">
+                <div className="min-w-0">
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                        <History size={20} className={`text-${theme.colors.primary}-400 shrink-0`} />
+                        <span className="truncate">{source.title}</span>
+                    </h3>
+                    {previous && (
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-slate-400">
+                            <span>Comparing</span>
+                            <select
+                                value={previous.version}
+                                onChange={(e) => setCompareTo(Number(e.target.value))}
+                                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-slate-200 outline-none"
+                            >
+                                {versions.map(v => (
+                                    <option key={v.version} value={v.version}>v{v.version} • {new Date(v.fetchedAt).toLocaleString()}</option>
+                                ))}
+                            </select>
+                            <span>with current v{sourceVersion(source)}{source.refreshedAt && ` • ${new Date(source.refreshedAt).toLocaleString()}`}</span>
+                            <span className="text-emerald-400">+{stats.added}</span>
+                            <span className="text-rose-400">−{stats.removed}</span>
+                        </div>
+                    )}
+                </div>
+                <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors shrink-0">
+                    <X size={20} />
+                </button>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar bg-black/30 rounded-xl border border-white/5 py-3 font-mono text-xs leading-relaxed">
+                {!previous ? (
+                    <p className="px-5 text-slate-500 font-sans text-sm">No earlier versions. Refresh the source to track changes.</p>
+                ) : stats.added + stats.removed === 0 ? (
+                    <p className="px-5 text-slate-500 font-sans text-sm">No differences from this version.</p>
+                ) : rows.map((row, i) => row.type === 'fold' ? (
+                    <div key={i} className="px-5 py-1 text-slate-600 italic">… {row.count} unchanged line{row.count === 1 ? '' : 's'} …</div>
+                ) : (
+                    <div
+                        key={i}
+                        className={`px-5 whitespace-pre-wrap break-words ${row.type === 'added' ? 'bg-emerald-500/10 text-emerald-300' : row.type === 'removed' ? 'bg-rose-500/10 text-rose-300 line-through decoration-rose-500/40' : 'text-slate-400'}`}
+                    >
+                        <span className="select-none inline-block w-4 text-slate-600">{row.type === 'added' ? '+' : row.type === 'removed' ? '−' : ' '}</span>
+                        {row.text || ' '}
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default SourceDiff;
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Source } from '../types';
+import { X, FileText, ExternalLink, Search, ChevronUp, ChevronDown, Quote } from 'lucide-react';
+import { useTheme } from '../contexts';
+import { pageAt, CitedPassage } from '../services/sources';
+import { transcriptTimeAt, videoLinkAt, formatTimestamp } from '../services/youtube';
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+interface Props {
+  source: Source;
+  highlight?: SourceSpan;
+  passages?: CitedPassage[];
+  onClose: () => void;
+}
+
+// Enough to page through any sensible query without stalling on one-letter searches
+const MAX_MATCHES = 1000;
+
+const findMatches = (content: string, query: string): SourceSpan[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = content.toLowerCase();
+  const matches: SourceSpan[] = [];
+  for (let i = haystack.indexOf(needle); i >= 0 && matches.length < MAX_MATCHES; i = haystack.indexOf(needle, i + needle.length)) {
+      matches.push({ start: i, end: i + needle.length });
+  }
+  return matches;
+};
+
+const SourceViewer: React.FC<Props> = ({ source, highlight, passages = [], onClose }) => {
+  const { theme } = useTheme();
+  const targetRef = useRef<HTMLElement>(null);
+  const [focus, setFocus] = useState<SourceSpan | undefined>(highlight);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [showPassages, setShowPassages] = useState(false);
+
+  // A new citation click replaces whatever was being read
+  useEffect(() => {
+      setFocus(highlight);
+      setQuery('');
+  }, [source.id, highlight?.start, highlight?.end]);
+
+  const content = source.content || '';
+  const span = focus && focus.end > focus.start
+      ? { start: Math.max(0, focus.start), end: Math.min(content.length, focus.end) }
+      : null;
+  const matches = useMemo(() => findMatches(content, query), [content, query]);
+  const activeMatch = matches[Math.min(matchIndex, matches.length - 1)];
+  const target = activeMatch || span;
+
+  useEffect(() => {
+      targetRef.current?.scrollIntoView({ block: 'center' });
+  }, [source.id, target?.start, target?.end]);
+
+  const step = (direction: number) => {
+      if (matches.length) setMatchIndex((Math.min(matchIndex, matches.length - 1) + direction + matches.length) % matches.length);
+  };
+
+  const jumpTo = (passage: SourceSpan) => {
+      setQuery('');
+      setFocus({ start: passage.start, end: passage.end });
+  };
+
+  // Cut the text at every passage, match and focus boundary so each piece gets one style
+  const bounds = new Set([0, content.length]);
+  [...passages, ...matches, ...(span ? [span] : [])].forEach(r => { bounds.add(r.start); bounds.add(r.end); });
+  const points = [...bounds].sort((a, b) => a - b);
+  let m = 0;
+  const segments = points.slice(0, -1).map((start, i) => {
+      const end = points[i + 1];
+      while (m < matches.length && matches[m].end <= start) m++;
+      const match = m < matches.length && matches[m].start <= start ? matches[m] : undefined;
+      const cited = passages.filter(p => p.start <= start && p.end >= end);
+      return { start, end, match, focused: !!span && span.start <= start && span.end >= end, cited };
+  });
+
+  const videoId: string | undefined = source.metadata?.videoId;
+  const videoTime = videoId ? transcriptTimeAt(source, span?.start ?? 0) ?? 0 : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={onClose}>
+        <div className="glass-panel w-full max-w-3xl rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-start gap-4 mb-4">
+                <div className="min-w-0">
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2 truncate">
+                        <FileText size={20} className={`text-${theme.colors.primary}-400 shrink-0`} />
+                        <span className="truncate">{source.title}</span>
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">
+                        {source.type} • {content.length.toLocaleString()} chars
+                        {span && (pageAt(source, span.start)
+                            ? ` • highlighting page ${pageAt(source, span.start)}`
+                            : ` • highlighting characters ${span.start.toLocaleString()}–${span.end.toLocaleString()}`)}
+                    </p>
+                    {videoId && videoTime !== undefined && (
+                        <a
+                            href={videoLinkAt(videoId, videoTime)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1.5 mt-2 text-xs font-medium text-red-400 hover:text-red-300"
+                        >
+                            <ExternalLink size={12} /> Watch on YouTube at {formatTimestamp(videoTime)}
+                        </a>
+                    )}
+                </div>
+                <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors shrink-0">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="flex items-center gap-2 mb-3 text-xs">
+                <div className="relative flex-1">
+                    <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                    <input
+                        value={query}
+                        onChange={(e) => { setQuery(e.target.value); setMatchIndex(0); }}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') step(e.shiftKey ? -1 : 1);
+                            if (e.key === 'Escape' && query) { e.stopPropagation(); setQuery(''); }
+                        }}
+                        placeholder="Search this source"
+                        className={`w-full bg-slate-900 border border-slate-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`}
+                    />
+                </div>
+                {query.trim() && (
+                    <span className="text-slate-500 whitespace-nowrap">
+                        {matches.length ? `${matches.indexOf(activeMatch) + 1} of ${matches.length}${matches.length === MAX_MATCHES ? '+' : ''}` : 'No matches'}
+                    </span>
+                )}
+                <button onClick={() => step(-1)} disabled={!matches.length} className="p-2 hover:bg-white/10 rounded-lg text-slate-400 hover:text-white disabled:opacity-40 transition-colors" title="Previous match (Shift+Enter)">
+                    <ChevronUp size={16} />
+                </button>
+                <button onClick={() => step(1)} disabled={!matches.length} className="p-2 hover:bg-white/10 rounded-lg text-slate-400 hover:text-white disabled:opacity-40 transition-colors" title="Next match (Enter)">
+                    <ChevronDown size={16} />
+                </button>
+                {passages.length > 0 && (
+                    <button
+                        onClick={() => setShowPassages(!showPassages)}
+                        className={`flex items-center gap-1.5 px-3 py-2 rounded-lg border transition-colors ${showPassages ? `border-${theme.colors.primary}-500/40 text-${theme.colors.primary}-300 bg-${theme.colors.primary}-500/10` : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                        title="Passages cited in chat answers and audio overviews"
+                    >
+                        <Quote size={12} /> {passages.length} cited
+                    </button>
+                )}
+            </div>
+
+            {showPassages && passages.length > 0 && (
+                <div className="max-h-40 overflow-y-auto custom-scrollbar mb-3 space-y-1 pr-1">
+                    {passages.map(p => (
+                        <button
+                            key={`${p.start}:${p.end}`}
+                            onClick={() => jumpTo(p)}
+                            className={`w-full text-left p-2 rounded-lg border transition-colors ${span?.start === p.start && span?.end === p.end ? `border-${theme.colors.primary}-500/40 bg-${theme.colors.primary}-500/10` : 'border-white/5 hover:bg-white/5'}`}
+                        >
+                            <p className="text-xs text-slate-300 line-clamp-2">{content.slice(p.start, p.end)}</p>
+                            <p className="text-[10px] text-slate-500 mt-0.5 truncate">
+                                {pageAt(source, p.start) ? `p. ${pageAt(source, p.start)} • ` : ''}{p.labels.join(' • ')}
+                            </p>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar bg-black/30 rounded-xl border border-white/5 p-5">
+                <p className="whitespace-pre-wrap leading-relaxed text-sm text-slate-300">
+                    {segments.map(({ start, end, match, focused, cited }) => {
+                        const text = content.slice(start, end);
+                        const ref = target && start === target.start ? targetRef : undefined;
+                        if (match) return (
+                            <mark key={start} ref={ref} className={`${match === activeMatch ? 'bg-amber-400 text-slate-900' : 'bg-amber-400/30 text-white'} rounded-sm`}>{text}</mark>
+                        );
+                        if (focused) return (
+                            <mark key={start} ref={ref} className={`bg-${theme.colors.primary}-500/30 text-white rounded px-0.5`}>{text}</mark>
+                        );
+                        if (cited.length) return (
+                            <mark
+                                key={start}
+                                onClick={() => jumpTo(cited[0])}
+                                className={`bg-${theme.colors.primary}-500/10 text-slate-200 border-b border-${theme.colors.primary}-400/50 cursor-pointer hover:bg-${theme.colors.primary}-500/20`}
+                                title={[...new Set(cited.flatMap(p => p.labels))].join('\n')}
+                            >
+                                {text}
+                            </mark>
+                        );
+                        return <React.Fragment key={start}>{text}</React.Fragment>;
+                    })}
+                </p>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -1,18 +1,50 @@
 
 import React, { useState, useRef } from 'react';
     import { Source } from '../types';
-    import { fetchWebsiteContent, processFileWithGemini, runNebulaScout } from '../services/ai';
-    import { FileText, Link as LinkIcon, Youtube, Type, Upload, Trash2, Globe, FileAudio, Image, PlusCircle, X, Loader2, Plus, Radar, Search } from 'lucide-react';
+    import { fetchWebsiteArticle, processFileWithGemini } from '../services/ai';
+    import { FileText, Link as LinkIcon, Youtube, Type, Upload, Trash2, Globe, FileAudio, Image, PlusCircle, X, Loader2, Plus, Radar, CheckSquare, Square, FileType2, BookOpen, FileCode, FileSpreadsheet, Hash, Network, FolderTree, RefreshCw, History, Quote, Library, Eye } from 'lucide-react';
     import { useNavigate } from 'react-router-dom';
-    import { useTheme } from '../contexts';
+    import { useTheme, useJobs } from '../contexts';
+    import { parseDocumentFile, DOCUMENT_ACCEPT } from '../services/documents';
+    import { parseVideoId, parseCaptions, cuesToTranscript, fetchYouTubeCaptions, fetchYouTubeDetails, CAPTION_ACCEPT } from '../services/youtube';
+    import { crawlWebsite, parsePatterns, isSitemapUrl } from '../services/crawl';
+    import { canRefresh, refreshSource } from '../services/refresh';
+    import { sourceVersion } from '../services/sources';
+    import ProxySettings from './ProxySettings';
+    import SourceDiff from './SourceDiff';
+    import DuplicateDialog, { DuplicateAction } from './DuplicateDialog';
+    import ScoutPanel from './ScoutPanel';
+    import ReferenceEditor from './ReferenceEditor';
+    import BibliographyExport from './BibliographyExport';
+    import { parseReferenceFile, entryToSource, fetchFullText, ImportedEntry, REFERENCE_FILE_ACCEPT } from '../services/referenceImport';
+    import { findDuplicate, mergeSources, DuplicateMatch } from '../services/dedupe';
     
     interface Props {
+      notebookId: string;
       sources: Source[];
-      onAddSource: (s: Source) => void;
+      excludedSourceIds: string[];
+      onAddSources: (s: Source[]) => void;
+      onUpdateSources: (s: Source[]) => void;
       onDeleteSource: (id: string) => void;
+      onSetSourcesActive: (ids: string[], active: boolean) => void;
+      onViewSource: (id: string) => void;
+      readOnly?: boolean;
     }
 
-    const SourceCard: React.FC<{ source: Source, onDeleteSource: (id: string) => void }> = ({ source, onDeleteSource }) => {
+    interface SourceCardProps {
+      source: Source;
+      active: boolean;
+      onToggle: () => void;
+      onDeleteSource: (id: string) => void;
+      onRefresh?: () => void;
+      refreshing?: boolean;
+      onShowChanges: () => void;
+      onEditReference: () => void;
+      onView: () => void;
+      readOnly?: boolean;
+    }
+
+    const SourceCard: React.FC<SourceCardProps> = ({ source, active, onToggle, onDeleteSource, onRefresh, refreshing, onShowChanges, onEditReference, onView, readOnly }) => {
         const { theme } = useTheme();
         let Icon = FileText;
         let colorClass = "text-slate-400";
@@ -23,9 +55,14 @@ import React, { useState, useRef } from 'react';
         if (source.type === 'copiedText') { Icon = Type; colorClass = "text-pink-400"; bgClass = "group-hover:bg-pink-500/10"; }
         if (source.type === 'audio') { Icon = FileAudio; colorClass = "text-purple-400"; bgClass = "group-hover:bg-purple-500/10"; }
         if (source.type === 'image') { Icon = Image; colorClass = "text-green-400"; bgClass = "group-hover:bg-green-500/10"; }
+        if (source.type === 'docx') { Icon = FileType2; colorClass = "text-sky-400"; bgClass = "group-hover:bg-sky-500/10"; }
+        if (source.type === 'epub') { Icon = BookOpen; colorClass = "text-amber-400"; bgClass = "group-hover:bg-amber-500/10"; }
+        if (source.type === 'markdown') { Icon = Hash; colorClass = "text-slate-300"; bgClass = "group-hover:bg-slate-500/10"; }
+        if (source.type === 'html') { Icon = FileCode; colorClass = "text-cyan-400"; bgClass = "group-hover:bg-cyan-500/10"; }
+        if (source.type === 'csv') { Icon = FileSpreadsheet; colorClass = "text-emerald-400"; bgClass = "group-hover:bg-emerald-500/10"; }
     
         return (
-          <div className={`relative overflow-hidden glass-panel p-5 rounded-2xl border border-white/5 hover:border-${theme.colors.primary}-500/30 transition-all duration-300 group`}>
+          <div className={`relative overflow-hidden glass-panel p-5 rounded-2xl border border-white/5 hover:border-${theme.colors.primary}-500/30 transition-all duration-300 group ${active ? '' : 'opacity-50'}`}>
              <div className={`absolute inset-0 bg-gradient-to-r from-${theme.colors.primary}-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none`}></div>
 
              <div className="relative z-10 flex items-start gap-4">
@@ -36,7 +73,11 @@ import React, { useState, useRef } from 'react';
                 <div className="flex-1 min-w-0">
                     <div className="flex justify-between items-start">
                          <div className="min-w-0">
-                             <h3 className={`font-semibold text-slate-200 truncate pr-2 text-base group-hover:text-${theme.colors.primary}-300 transition-colors`}>
+                             <h3 
+                                 onClick={onView}
+                                 className={`font-semibold text-slate-200 truncate pr-2 text-base group-hover:text-${theme.colors.primary}-300 transition-colors cursor-pointer`}
+                                 title="Read the full text"
+                             >
                                  {source.title}
                              </h3>
                              <div className="flex items-center gap-2 mt-1">
@@ -44,22 +85,75 @@ import React, { useState, useRef } from 'react';
                                     {source.type}
                                 </span>
                                 <span className="text-xs text-slate-500 truncate max-w-[120px]">
-                                    {source.type === 'copiedText' ? 'Pasted Content' : source.metadata?.originalUrl || source.metadata?.filename || 'File Upload'}
+                                    {source.type === 'copiedText' ? (source.metadata?.noteId ? 'From Note' : source.metadata?.importedFrom ? `From ${source.metadata.importedFrom}` : 'Pasted Content') : source.metadata?.siteName || source.metadata?.originalUrl || source.metadata?.filename || 'File Upload'}
                                 </span>
                              </div>
                          </div>
+                         <div className="flex items-center gap-1 shrink-0">
                          <button 
-                            onClick={() => onDeleteSource(source.id)}
-                            className="text-slate-600 hover:text-rose-500 p-1.5 hover:bg-rose-500/10 rounded-lg transition-all opacity-0 group-hover:opacity-100"
-                            title="Delete Source"
-                        >
-                            <Trash2 size={16} />
-                        </button>
+                            onClick={onToggle}
+                            className={`p-1.5 rounded-lg transition-colors ${active ? `text-${theme.colors.primary}-400 hover:bg-${theme.colors.primary}-500/10` : 'text-slate-600 hover:text-slate-400 hover:bg-white/5'}`}
+                            title={active ? "Included in chat, Studio and audio. Click to exclude." : "Excluded. Click to include."}
+                         >
+                            {active ? <CheckSquare size={16} /> : <Square size={16} />}
+                         </button>
+                         <button 
+                            onClick={onView}
+                            className={`p-1.5 rounded-lg transition-all text-slate-600 hover:text-${theme.colors.primary}-400 hover:bg-${theme.colors.primary}-500/10 opacity-0 group-hover:opacity-100`}
+                            title="Read the full text"
+                         >
+                            <Eye size={16} />
+                         </button>
+                         {!readOnly && (
+                            <button 
+                                onClick={onEditReference}
+                                className={`p-1.5 rounded-lg transition-all text-slate-600 hover:text-${theme.colors.primary}-400 hover:bg-${theme.colors.primary}-500/10 opacity-0 group-hover:opacity-100`}
+                                title="Edit reference (authors, date, DOI)"
+                            >
+                                <Quote size={16} />
+                            </button>
+                         )}
+                         {!readOnly && onRefresh && (
+                            <button 
+                                onClick={onRefresh}
+                                disabled={refreshing}
+                                className={`p-1.5 rounded-lg transition-all text-slate-600 hover:text-${theme.colors.primary}-400 hover:bg-${theme.colors.primary}-500/10 ${refreshing ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                                title="Re-fetch this page and keep the current text as a version"
+                            >
+                                <RefreshCw size={16} className={refreshing ? 'animate-spin' : ''} />
+                            </button>
+                         )}
+                         {!readOnly && (
+                            <button 
+                                onClick={() => onDeleteSource(source.id)}
+                                className="text-slate-600 hover:text-rose-500 p-1.5 hover:bg-rose-500/10 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                                title="Delete Source"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                         )}
+                         </div>
                     </div>
                     
                     <div className="mt-3 pt-3 border-t border-white/5 flex items-center justify-between text-xs text-slate-500">
-                        <span className="font-mono">{source.content.length.toLocaleString()} chars</span>
-                        <span>{new Date(source.createdAt).toLocaleDateString()}</span>
+                        <span className="font-mono">
+                            {source.content.length.toLocaleString()} chars
+                            {source.metadata?.pageCount ? ` • ${source.metadata.pageCount} pages` : ''}
+                            {source.type === 'website' && source.metadata?.author ? ` • ${source.metadata.author}` : ''}
+                        </span>
+                        {source.versions?.length ? (
+                            <button 
+                                onClick={onShowChanges}
+                                className={`flex items-center gap-1 text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300 transition-colors`}
+                                title="Show what changed since the previous version"
+                            >
+                                <History size={12} /> v{sourceVersion(source)} • {new Date(source.refreshedAt || source.createdAt).toLocaleDateString()}
+                            </button>
+                        ) : (
+                            <span title={source.refreshedAt ? `Checked ${new Date(source.refreshedAt).toLocaleString()}` : undefined}>
+                                {new Date(source.createdAt).toLocaleDateString()}
+                            </span>
+                        )}
                     </div>
                 </div>
              </div>
@@ -67,10 +161,10 @@ import React, { useState, useRef } from 'react';
         );
       };
     
-    const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource }) => {
+    const SourcesTab: React.FC<Props> = ({ notebookId, sources, excludedSourceIds, onAddSources, onUpdateSources, onDeleteSource, onSetSourcesActive, onViewSource, readOnly = false }) => {
       // Modal State
-      const [activeModal, setActiveModal] = useState<'text' | 'website' | 'youtube' | 'file' | 'scout' | null>(null);
-      const [fileType, setFileType] = useState<'pdf' | 'audio' | 'image' | null>(null);
+      const [activeModal, setActiveModal] = useState<'text' | 'website' | 'youtube' | 'file' | 'scout' | 'references' | null>(null);
+      const [fileType, setFileType] = useState<'pdf' | 'audio' | 'image' | 'document' | null>(null);
       
       // Input State
       const [inputValue, setInputValue] = useState('');
@@ -79,10 +173,39 @@ import React, { useState, useRef } from 'react';
       const [isProcessing, setIsProcessing] = useState(false);
       const [statusMessage, setStatusMessage] = useState('');
       const [error, setError] = useState<string | null>(null);
+      const [showProxySettings, setShowProxySettings] = useState(false);
+      const [crawlMode, setCrawlMode] = useState(false);
+      const [duplicates, setDuplicates] = useState<{ incoming: Source; match: DuplicateMatch }[]>([]);
+      const [refreshingIds, setRefreshingIds] = useState<string[]>([]);
+      const [diffSourceId, setDiffSourceId] = useState<string | null>(null);
+      const [referenceSourceId, setReferenceSourceId] = useState<string | null>(null);
+      const referenceSource = referenceSourceId ? sources.find(s => s.id === referenceSourceId) : undefined;
+      const [showBibliography, setShowBibliography] = useState(false);
+      const diffSource = diffSourceId ? sources.find(s => s.id === diffSourceId) : undefined;
+      const refreshable = sources.filter(canRefresh);
+      const [crawlOptions, setCrawlOptions] = useState({ maxDepth: 1, maxPages: 20, include: '', exclude: '' });
+      const [referenceEntries, setReferenceEntries] = useState<ImportedEntry[] | null>(null);
+      const [fetchFullTexts, setFetchFullTexts] = useState(false);
 
       const fileInputRef = useRef<HTMLInputElement>(null);
+      const captionInputRef = useRef<HTMLInputElement>(null);
       const navigate = useNavigate();
       const { theme } = useTheme();
+      const { notify, scoutMissions } = useJobs();
+      const missions = scoutMissions.filter(m => m.notebookId === notebookId);
+      const scouting = missions.some(m => m.status === 'searching' || m.status === 'fetching');
+      const activeCount = sources.filter(s => !excludedSourceIds.includes(s.id)).length;
+      const [collapsedCollections, setCollapsedCollections] = useState<string[]>([]);
+
+      // Loose sources first, then one group per crawl collection in the order they were added
+      const groups: { id: string | null; name: string; sources: Source[] }[] = [{ id: null, name: '', sources: [] }];
+      sources.forEach(s => {
+          const id: string | undefined = s.metadata?.collectionId;
+          const group = groups.find(g => g.id === (id ?? null));
+          if (group) group.sources.push(s);
+          else groups.push({ id: id!, name: s.metadata?.collectionName || 'Collection', sources: [s] });
+      });
+      if (groups[0].sources.length === 0) groups.shift();
     
       const resetModal = () => {
           setActiveModal(null);
@@ -93,6 +216,67 @@ import React, { useState, useRef } from 'react';
           setError(null);
           setIsProcessing(false);
           setStatusMessage('');
+          setCrawlMode(false);
+          setReferenceEntries(null);
+          setFetchFullTexts(false);
+      };
+
+      // New sources that duplicate existing ones wait for the user to skip, merge or keep them
+      const ingestSources = (incoming: Source[]) => {
+          const accepted: Source[] = [];
+          const conflicts: typeof duplicates = [];
+          incoming.forEach(source => {
+              const match = findDuplicate(source, [...sources, ...accepted]);
+              if (match) conflicts.push({ incoming: source, match });
+              else accepted.push(source);
+          });
+          if (accepted.length > 0) onAddSources(accepted);
+          if (conflicts.length > 0) setDuplicates(prev => [...prev, ...conflicts]);
+      };
+
+      const resolveDuplicates = (action: DuplicateAction, applyToAll: boolean) => {
+          const batch = applyToAll ? duplicates : duplicates.slice(0, 1);
+          if (action === 'keep') onAddSources(batch.map(d => d.incoming));
+          if (action === 'merge') {
+              // Several copies can fold into the same source; merge into the latest state
+              const merged = new Map<string, Source>();
+              batch.forEach(({ incoming, match }) => {
+                  const target = merged.get(match.source.id) || sources.find(s => s.id === match.source.id) || match.source;
+                  merged.set(target.id, mergeSources(target, incoming));
+              });
+              onUpdateSources(Array.from(merged.values()));
+          }
+          setDuplicates(prev => prev.slice(batch.length));
+      };
+
+      // Refreshes run one at a time so a large "refresh all" does not flood the proxy
+      const handleRefresh = async (targets: Source[]) => {
+          const ids = targets.map(t => t.id);
+          setRefreshingIds(prev => [...prev, ...ids]);
+          const refreshed: Source[] = [];
+          const failures: string[] = [];
+          for (const source of targets) {
+              try {
+                  const result = await refreshSource(source);
+                  if (result.changed) refreshed.push(result.source);
+              } catch (e: any) {
+                  failures.push(`${source.title}: ${e.message}`);
+              }
+          }
+          onUpdateSources(refreshed);
+          setRefreshingIds(prev => prev.filter(id => !ids.includes(id)));
+
+          if (failures.length > 0) {
+              notify("Refresh failed", failures.join('; '), 'error');
+          } else {
+              notify(
+                  refreshed.length ? "Sources updated" : "No changes",
+                  refreshed.length
+                      ? `${refreshed.length} of ${targets.length} source${targets.length === 1 ? '' : 's'} changed. Artifacts made from the old text are marked stale.`
+                      : `${targets.length === 1 ? 'The page has' : 'None of the pages have'} changed since the last fetch.`,
+                  refreshed.length ? 'success' : 'info'
+              );
+          }
       };
 
       const handleAddSource = async () => {
@@ -105,46 +289,138 @@ import React, { useState, useRef } from 'react';
             let type: Source['type'] = 'copiedText';
             let metadata: any = {};
 
-            if (activeModal === 'scout') {
-                const newSources = await runNebulaScout(inputValue, setStatusMessage);
-                newSources.forEach(s => onAddSource(s));
-                resetModal();
-                return;
-            }
-            else if (activeModal === 'text') {
+            if (activeModal === 'text') {
                 content = inputValue;
                 type = 'copiedText';
                 if (!finalTitle) finalTitle = "Pasted Text " + new Date().toLocaleTimeString();
             } 
+            else if (activeModal === 'website' && crawlMode) {
+                if (!inputValue.startsWith('http')) throw new Error("Invalid URL");
+                const crawl = await crawlWebsite({
+                    startUrl: inputValue,
+                    maxDepth: crawlOptions.maxDepth,
+                    maxPages: crawlOptions.maxPages,
+                    include: parsePatterns(crawlOptions.include),
+                    exclude: parsePatterns(crawlOptions.exclude)
+                }, setStatusMessage);
+
+                // Crawled pages share a collection so they can be listed and toggled together
+                const collectionId = crypto.randomUUID();
+                const collectionName = titleValue || new URL(inputValue).hostname.replace(/^www\./, '');
+                ingestSources(crawl.pages.map(page => ({
+                    id: crypto.randomUUID(),
+                    type: 'website' as const,
+                    title: page.article.title || page.url,
+                    content: page.article.content,
+                    createdAt: Date.now(),
+                    metadata: { ...page.article.metadata, collectionId, collectionName, crawlDepth: page.depth }
+                })));
+                notify(
+                    "Crawl complete",
+                    `Fetched ${crawl.pages.length} page${crawl.pages.length === 1 ? '' : 's'} to "${collectionName}"${crawl.failures.length ? `; ${crawl.failures.length} could not be read` : ''}.`,
+                    crawl.failures.length ? 'info' : 'success'
+                );
+                resetModal();
+                return;
+            }
+            else if (activeModal === 'references') {
+                if (!selectedFile || !referenceEntries) throw new Error("Choose a BibTeX or RIS file first.");
+
+                // Entries from one file share a collection, like crawled pages
+                const collectionId = crypto.randomUUID();
+                const collectionName = titleValue || selectedFile.name.replace(/\.(bib|bibtex|ris)$/i, '');
+                const drafts = referenceEntries.map(entry => entryToSource(entry, { collectionId, collectionName, importedFrom: selectedFile.name }));
+                const linked = fetchFullTexts ? drafts.filter(s => s.metadata?.originalUrl).length : 0;
+                const imported: Source[] = [];
+                let upgraded = 0, failed = 0;
+                for (const draft of drafts) {
+                    if (!fetchFullTexts || !draft.metadata?.originalUrl) { imported.push(draft); continue; }
+                    setStatusMessage(`Fetching full text ${upgraded + failed + 1} of ${linked}: ${draft.title}`);
+                    try {
+                        const source = await fetchFullText(draft);
+                        if (source !== draft) upgraded++;
+                        imported.push(source);
+                    } catch (e) {
+                        console.warn("Could not fetch full text", draft.metadata.originalUrl, e);
+                        failed++;
+                        imported.push(draft);
+                    }
+                }
+
+                ingestSources(imported);
+                notify(
+                    "References imported",
+                    `Added ${imported.length} reference${imported.length === 1 ? '' : 's'} to "${collectionName}"${fetchFullTexts ? `; full text for ${upgraded} of ${linked}` : ''}.`,
+                    failed ? 'info' : 'success'
+                );
+                resetModal();
+                return;
+            }
             else if (activeModal === 'website') {
                 if (!inputValue.startsWith('http')) throw new Error("Invalid URL");
-                content = await fetchWebsiteContent(inputValue);
+                setStatusMessage("Extracting article...");
+                const article = await fetchWebsiteArticle(inputValue);
+                content = article.content;
                 type = 'website';
-                if (!finalTitle) finalTitle = inputValue; // Ideally fetch title from scraping result
-                metadata = { originalUrl: inputValue };
+                if (!finalTitle) finalTitle = article.title || inputValue;
+                metadata = article.metadata;
             }
             else if (activeModal === 'youtube') {
-                if (!inputValue.includes('youtube.com') && !inputValue.includes('youtu.be')) throw new Error("Invalid YouTube URL");
+                const videoId = parseVideoId(inputValue);
+                if (!videoId) throw new Error("Invalid YouTube URL");
+                let channel: string | undefined;
                 
                 try {
-                    const oembedUrl = `https://noembed.com/embed?url=${inputValue}`;
-                    const res = await fetch(oembedUrl);
-                    const json = await res.json();
-                    if (json.title) finalTitle = json.title;
-                } catch (e) { console.warn("Could not fetch oEmbed", e); }
+                    const details = await fetchYouTubeDetails(videoId);
+                    if (details.title && !titleValue) finalTitle = details.title;
+                    channel = details.channel;
+                } catch (e) { console.warn("Could not fetch video details", e); }
 
                 if (!finalTitle) finalTitle = "YouTube Video";
-                
-                content = `[YouTube Video Source]\nURL: ${inputValue}\nTitle: ${finalTitle}\n\n(Note: Video transcript ingestion requires backend API. Treat this source as context for the video's existence.)`;
+
+                // Attached caption file wins; otherwise try the video's own captions
+                setStatusMessage(selectedFile ? "Reading caption file..." : "Fetching captions...");
+                const captions = selectedFile ? await selectedFile.text() : await fetchYouTubeCaptions(videoId);
+                const cues = parseCaptions(captions);
+                if (cues.length === 0) throw new Error("No captions found. Check that the file is SRT, WebVTT or YouTube timedtext XML.");
+
+                const transcript = cuesToTranscript(cues);
+                content = transcript.content;
                 type = 'youtube';
-                metadata = { originalUrl: inputValue };
+                metadata = {
+                    originalUrl: inputValue,
+                    videoId,
+                    ...(channel ? { author: channel } : {}),
+                    segments: transcript.segments,
+                    captionSource: selectedFile ? selectedFile.name : 'youtube'
+                };
             }
             else if (activeModal === 'file' && selectedFile && fileType) {
                  if (!finalTitle) finalTitle = selectedFile.name;
                  
-                 content = await processFileWithGemini(selectedFile, selectedFile.type);
-                 type = fileType;
                  metadata = { filename: selectedFile.name, size: selectedFile.size };
+                 if (fileType === 'document') {
+                     // DOCX, EPUB, Markdown, HTML and CSV are parsed locally
+                     const doc = await parseDocumentFile(selectedFile);
+                     type = doc.type;
+                     content = doc.content;
+                     metadata = { ...metadata, ...doc.metadata };
+                     if (doc.title && (!titleValue || titleValue === selectedFile.name)) finalTitle = doc.title;
+                 } else if (fileType === 'pdf') {
+                     type = fileType;
+                     // Text layer is read locally; only scanned pages go to the model.
+                     // pdf.js is loaded on demand to keep it out of the main bundle.
+                     const { extractPdfText } = await import('../services/pdf');
+                     const pdf = await extractPdfText(selectedFile, setStatusMessage);
+                     content = pdf.content;
+                     metadata = { ...metadata, pageCount: pdf.pageCount, pages: pdf.pages, ocrPages: pdf.ocrPages, ocrFailedPages: pdf.ocrFailedPages };
+                     if (pdf.ocrFailedPages.length > 0) {
+                         notify("Some pages were skipped", `Page${pdf.ocrFailedPages.length === 1 ? '' : 's'} ${pdf.ocrFailedPages.join(', ')} of "${finalTitle}" could not be transcribed.`, 'info');
+                     }
+                 } else {
+                     type = fileType;
+                     content = await processFileWithGemini(selectedFile, selectedFile.type);
+                 }
             }
 
             if (!content) throw new Error("No content could be extracted.");
@@ -158,7 +434,7 @@ import React, { useState, useRef } from 'react';
                 metadata
             };
 
-            onAddSource(newSource);
+            ingestSources([newSource]);
             resetModal();
 
         } catch (err: any) {
@@ -168,6 +444,19 @@ import React, { useState, useRef } from 'react';
         }
       };
 
+      const handleReferenceFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+          const file = e.target.files?.[0];
+          if (!file) return;
+          setSelectedFile(file);
+          setReferenceEntries(null);
+          setError(null);
+          try {
+              setReferenceEntries(parseReferenceFile(await file.text(), file.name));
+          } catch (err: any) {
+              setError(err.message || "Could not read the reference file.");
+          }
+      };
+
       const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
           if (e.target.files && e.target.files[0]) {
               setSelectedFile(e.target.files[0]);
@@ -199,9 +488,10 @@ import React, { useState, useRef } from 'react';
           </div>
     
           {/* Quick Actions */}
+          {!readOnly && (
           <div>
               <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4 pl-1">Add New Source</h3>
-              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 md:gap-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-9 gap-3 md:gap-4">
                  <button 
                     onClick={() => setActiveModal('text')} 
                     className={`p-4 md:p-5 glass-panel rounded-2xl flex flex-col items-center gap-3 hover:bg-slate-800 hover:scale-[1.02] transition-all group border-transparent hover:border-${theme.colors.primary}-500/30`}
@@ -221,12 +511,24 @@ import React, { useState, useRef } from 'react';
                      </div>
                      <span className="text-xs md:text-sm font-medium text-slate-200">Website</span>
                  </button>
+
+                 <button 
+                    onClick={() => setActiveModal('youtube')}
+                    className={`p-4 md:p-5 glass-panel rounded-2xl flex flex-col items-center gap-3 hover:bg-slate-800 hover:scale-[1.02] transition-all group border-transparent hover:border-${theme.colors.primary}-500/30`}
+                 >
+                     <div className="p-3 bg-red-500/10 rounded-full group-hover:bg-red-500/20 transition-colors">
+                        <Youtube className="text-red-400" size={24} />
+                     </div>
+                     <span className="text-xs md:text-sm font-medium text-slate-200">YouTube</span>
+                 </button>
                  
                  <button 
                     onClick={() => setActiveModal('scout')}
                     className={`p-4 md:p-5 glass-panel rounded-2xl flex flex-col items-center gap-3 hover:bg-slate-800 hover:scale-[1.02] transition-all group border-transparent hover:border-${theme.colors.primary}-500/30 relative overflow-hidden`}
                  >
-                     <div className={`absolute top-0 right-0 px-2 py-0.5 bg-${theme.colors.secondary}-500/80 text-white text-[9px] font-bold rounded-bl-lg`}>NEW</div>
+                     <div className={`absolute top-0 right-0 px-2 py-0.5 bg-${theme.colors.secondary}-500/80 text-white text-[9px] font-bold rounded-bl-lg`}>
+                        {scouting ? 'SCOUTING' : missions.some(m => m.status === 'review') ? 'REVIEW' : 'NEW'}
+                     </div>
                      <div className={`p-3 bg-${theme.colors.accent}-500/10 rounded-full group-hover:bg-${theme.colors.accent}-500/20 transition-colors`}>
                         <Radar className={`text-${theme.colors.accent}-400`} size={24} />
                      </div>
@@ -262,8 +564,29 @@ import React, { useState, useRef } from 'react';
                      </div>
                      <span className="text-xs md:text-sm font-medium text-slate-200">Image</span>
                  </button>
+
+                 <button 
+                    onClick={() => { setActiveModal('file'); setFileType('document'); }}
+                    className={`p-4 md:p-5 glass-panel rounded-2xl flex flex-col items-center gap-3 hover:bg-slate-800 hover:scale-[1.02] transition-all group border-transparent hover:border-${theme.colors.primary}-500/30`}
+                 >
+                     <div className="p-3 bg-sky-500/10 rounded-full group-hover:bg-sky-500/20 transition-colors">
+                        <FileType2 className="text-sky-400" size={24} />
+                     </div>
+                     <span className="text-xs md:text-sm font-medium text-slate-200 text-center leading-tight">Document</span>
+                 </button>
+
+                 <button 
+                    onClick={() => setActiveModal('references')}
+                    className={`p-4 md:p-5 glass-panel rounded-2xl flex flex-col items-center gap-3 hover:bg-slate-800 hover:scale-[1.02] transition-all group border-transparent hover:border-${theme.colors.primary}-500/30`}
+                 >
+                     <div className="p-3 bg-amber-500/10 rounded-full group-hover:bg-amber-500/20 transition-colors">
+                        <Library className="text-amber-400" size={24} />
+                     </div>
+                     <span className="text-xs md:text-sm font-medium text-slate-200 text-center leading-tight">References</span>
+                 </button>
               </div>
           </div>
+          )}
     
           {/* Sources List */}
           <div className="pt-4">
@@ -276,16 +599,103 @@ import React, { useState, useRef } from 'react';
                     <p className="text-sm mt-2 text-slate-500">Paste text, URL, or upload a file to get started.</p>
                 </div>
             ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {sources.map(s => <SourceCard key={s.id} source={s} onDeleteSource={onDeleteSource} />)}
+                <>
+                <div className="flex items-center justify-between mb-4 pl-1">
+                    <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">
+                        {activeCount} of {sources.length} sources active
+                    </h3>
+                    <div className="flex items-center gap-3 text-xs font-medium">
+                        <button 
+                            onClick={() => setShowBibliography(true)}
+                            className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+                            title="Export references as BibTeX, RIS, CSL-JSON or formatted text"
+                        >
+                            <Quote size={12} /> Cite
+                        </button>
+                        {!readOnly && refreshable.length > 0 && (
+                            <button 
+                                onClick={() => handleRefresh(refreshable.filter(s => !refreshingIds.includes(s.id)))}
+                                disabled={refreshingIds.length > 0}
+                                className="flex items-center gap-1 text-slate-400 hover:text-white disabled:text-slate-600 transition-colors"
+                                title="Re-fetch every website source"
+                            >
+                                <RefreshCw size={12} className={refreshingIds.length > 0 ? 'animate-spin' : ''} /> Refresh all
+                            </button>
+                        )}
+                        <button 
+                            onClick={() => onSetSourcesActive(sources.map(s => s.id), true)}
+                            disabled={activeCount === sources.length}
+                            className={`text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300 disabled:text-slate-600 transition-colors`}
+                        >
+                            Select all
+                        </button>
+                        <button 
+                            onClick={() => onSetSourcesActive(sources.map(s => s.id), false)}
+                            disabled={activeCount === 0}
+                            className="text-slate-400 hover:text-white disabled:text-slate-600 transition-colors"
+                        >
+                            Select none
+                        </button>
+                    </div>
                 </div>
+                <div className="space-y-6">
+                    {groups.map(group => {
+                        const groupActive = group.sources.filter(s => !excludedSourceIds.includes(s.id)).length;
+                        const collapsed = group.id !== null && collapsedCollections.includes(group.id);
+                        return (
+                            <div key={group.id ?? 'ungrouped'} className="space-y-3">
+                                {group.id !== null && (
+                                    <div className="flex items-center justify-between gap-3 pl-1">
+                                        <button 
+                                            onClick={() => setCollapsedCollections(collapsed ? collapsedCollections.filter(id => id !== group.id) : [...collapsedCollections, group.id!])}
+                                            className="flex items-center gap-2 min-w-0 text-sm font-semibold text-slate-300 hover:text-white transition-colors"
+                                        >
+                                            <FolderTree size={16} className="text-blue-400 shrink-0" />
+                                            <span className="truncate">{group.name}</span>
+                                            <span className="text-xs font-normal text-slate-500 shrink-0">{groupActive} of {group.sources.length} active{collapsed && ' • collapsed'}</span>
+                                        </button>
+                                        <button 
+                                            onClick={() => onSetSourcesActive(group.sources.map(s => s.id), groupActive < group.sources.length)}
+                                            className={`text-xs font-medium text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300 transition-colors shrink-0`}
+                                        >
+                                            {groupActive < group.sources.length ? 'Include all' : 'Exclude all'}
+                                        </button>
+                                    </div>
+                                )}
+                                {!collapsed && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        {group.sources.map(s => {
+                                            const active = !excludedSourceIds.includes(s.id);
+                                            return (
+                                                <SourceCard 
+                                                    key={s.id} 
+                                                    source={s} 
+                                                    active={active} 
+                                                    onToggle={() => onSetSourcesActive([s.id], !active)} 
+                                                    onDeleteSource={onDeleteSource} 
+                                                    onRefresh={canRefresh(s) ? () => handleRefresh([s]) : undefined}
+                                                    refreshing={refreshingIds.includes(s.id)}
+                                                    onShowChanges={() => setDiffSourceId(s.id)}
+                                                    onEditReference={() => setReferenceSourceId(s.id)}
+                                                    onView={() => onViewSource(s.id)}
+                                                    readOnly={readOnly} 
+                                                />
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                </>
             )}
           </div>
     
           {/* Modals */}
           {activeModal && (
             <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
-                <div className="glass-panel w-full max-w-2xl rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl relative">
+                <div className={`glass-panel w-full ${activeModal === 'scout' ? 'max-w-3xl' : 'max-w-2xl'} rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl relative`}>
                     <button onClick={resetModal} className="absolute top-4 right-4 p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors">
                         <X size={20} />
                     </button>
@@ -297,58 +707,40 @@ import React, { useState, useRef } from 'react';
                         {activeModal === 'file' && fileType === 'pdf' && <FileText className="text-orange-400" />}
                         {activeModal === 'file' && fileType === 'audio' && <FileAudio className="text-purple-400" />}
                         {activeModal === 'file' && fileType === 'image' && <Image className="text-green-400" />}
+                        {activeModal === 'file' && fileType === 'document' && <FileType2 className="text-sky-400" />}
+                        {activeModal === 'references' && <Library className="text-amber-400" />}
                         {activeModal === 'scout' && <Radar className={`text-${theme.colors.accent}-400`} />}
                         
                         {activeModal === 'text' && 'Paste Text'}
                         {activeModal === 'website' && 'Import Website'}
                         {activeModal === 'youtube' && 'Import YouTube'}
-                        {activeModal === 'file' && `Upload ${fileType?.toUpperCase()}`}
+                        {activeModal === 'file' && `Upload ${fileType === 'document' ? 'Document' : fileType?.toUpperCase()}`}
+                        {activeModal === 'references' && 'Import References'}
                         {activeModal === 'scout' && 'Nebula Scout'}
                     </h3>
 
                     {activeModal === 'scout' ? (
-                        <div className="space-y-6">
-                            <div className={`p-6 bg-${theme.colors.primary}-900/10 border border-${theme.colors.primary}-500/20 rounded-xl`}>
-                                <p className="text-sm text-slate-300 mb-4 leading-relaxed">
-                                    Nebula Scout is an <strong>autonomous research agent</strong>. Give it a topic, and it will search the web, identify high-quality sources, and ingest them into your notebook automatically.
-                                </p>
-                                <div className="flex w-full gap-2 items-center">
-                                    <input 
-                                        className={`flex-1 min-w-0 h-14 bg-slate-900 border border-slate-700 rounded-xl px-4 focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none text-white placeholder-slate-500`}
-                                        placeholder="e.g. The future of solid state batteries"
-                                        value={inputValue}
-                                        onChange={(e) => setInputValue(e.target.value)}
-                                        disabled={isProcessing}
-                                        onKeyDown={(e) => e.key === 'Enter' && !isProcessing && handleAddSource()}
-                                    />
-                                    <button 
-                                        onClick={handleAddSource}
-                                        disabled={isProcessing || !inputValue.trim()}
-                                        className={`w-14 h-14 shrink-0 rounded-xl font-bold flex items-center justify-center transition-all ${isProcessing ? 'bg-slate-800 text-slate-500' : `bg-${theme.colors.accent}-600 hover:bg-${theme.colors.accent}-500 text-white shadow-lg`}`}
-                                    >
-                                        {isProcessing ? <Loader2 className="animate-spin" /> : <Search />}
-                                    </button>
-                                </div>
-                            </div>
-                            
-                            {isProcessing && (
-                                <div className="flex flex-col items-center justify-center py-8 space-y-4">
-                                    <div className={`relative w-16 h-16 flex items-center justify-center`}>
-                                        <div className={`absolute inset-0 rounded-full border-2 border-${theme.colors.accent}-500/30 animate-ping`}></div>
-                                        <div className={`absolute inset-2 rounded-full border-2 border-${theme.colors.accent}-500/50 animate-spin`}></div>
-                                        <Radar className={`text-${theme.colors.accent}-400 relative z-10`} size={24} />
-                                    </div>
-                                    <p className={`text-${theme.colors.accent}-300 font-mono text-sm animate-pulse`}>
-                                        {statusMessage || "Initializing Scout..."}
-                                    </p>
-                                </div>
-                            )}
-                        </div>
+                        <ScoutPanel notebookId={notebookId} onAddSources={ingestSources} onDone={resetModal} />
                     ) : (
                         <div className="space-y-4 overflow-y-auto pr-1">
+                            {activeModal === 'website' && (
+                                <div className="flex p-1 bg-slate-900 border border-slate-700 rounded-xl text-sm font-medium">
+                                    {[{ crawl: false, label: 'Single page' }, { crawl: true, label: 'Crawl site' }].map(mode => (
+                                        <button 
+                                            key={mode.label}
+                                            onClick={() => setCrawlMode(mode.crawl)}
+                                            disabled={isProcessing}
+                                            className={`flex-1 py-2 rounded-lg transition-colors ${crawlMode === mode.crawl ? `bg-${theme.colors.primary}-600 text-white` : 'text-slate-400 hover:text-white'}`}
+                                        >
+                                            {mode.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
                             <input 
                                 className={`w-full bg-slate-900 border border-slate-700 rounded-xl p-4 focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none transition-all`}
-                                placeholder="Title (Optional)"
+                                placeholder={crawlMode || activeModal === 'references' ? "Collection name (Optional)" : "Title (Optional)"}
                                 value={titleValue}
                                 onChange={(e) => setTitleValue(e.target.value)}
                                 disabled={isProcessing}
@@ -367,13 +759,93 @@ import React, { useState, useRef } from 'react';
                             {(activeModal === 'website' || activeModal === 'youtube') && (
                                 <input 
                                     className={`w-full bg-slate-900 border border-slate-700 rounded-xl p-4 focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none transition-all font-mono text-sm`}
-                                    placeholder={activeModal === 'website' ? "https://example.com/article" : "https://youtube.com/watch?v=..."}
+                                    placeholder={activeModal === 'youtube' ? "https://youtube.com/watch?v=..." : crawlMode ? "https://docs.example.com/ or https://docs.example.com/sitemap.xml" : "https://example.com/article"}
                                     value={inputValue}
                                     onChange={(e) => setInputValue(e.target.value)}
                                     disabled={isProcessing}
                                 />
                             )}
 
+                            {activeModal === 'website' && crawlMode && (
+                                <div className="grid grid-cols-2 gap-3 text-xs text-slate-400">
+                                    <label className="space-y-1">
+                                        <span>Max depth{isSitemapUrl(inputValue) && ' (ignored for sitemaps)'}</span>
+                                        <input 
+                                            type="number" min={0} max={5}
+                                            value={crawlOptions.maxDepth}
+                                            onChange={(e) => setCrawlOptions({ ...crawlOptions, maxDepth: Math.max(0, Number(e.target.value) || 0) })}
+                                            disabled={isProcessing}
+                                            className={`w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`}
+                                        />
+                                    </label>
+                                    <label className="space-y-1">
+                                        <span>Max pages</span>
+                                        <input 
+                                            type="number" min={1} max={200}
+                                            value={crawlOptions.maxPages}
+                                            onChange={(e) => setCrawlOptions({ ...crawlOptions, maxPages: Math.max(1, Number(e.target.value) || 1) })}
+                                            disabled={isProcessing}
+                                            className={`w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`}
+                                        />
+                                    </label>
+                                    <label className="space-y-1">
+                                        <span>Include URLs matching</span>
+                                        <input 
+                                            value={crawlOptions.include}
+                                            onChange={(e) => setCrawlOptions({ ...crawlOptions, include: e.target.value })}
+                                            disabled={isProcessing}
+                                            placeholder="/docs/, */guide/*"
+                                            className={`w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-white font-mono outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`}
+                                        />
+                                    </label>
+                                    <label className="space-y-1">
+                                        <span>Exclude URLs matching</span>
+                                        <input 
+                                            value={crawlOptions.exclude}
+                                            onChange={(e) => setCrawlOptions({ ...crawlOptions, exclude: e.target.value })}
+                                            disabled={isProcessing}
+                                            placeholder="/blog/, ?page="
+                                            className={`w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-white font-mono outline-none focus:ring-2 focus:ring-${theme.colors.primary}-500`}
+                                        />
+                                    </label>
+                                    <p className="col-span-2 text-slate-500">Comma-separated; <code>*</code> matches anything. Only links on the same site are followed.</p>
+                                </div>
+                            )}
+
+                            {(activeModal === 'website' || activeModal === 'youtube') && (
+                                <button 
+                                    type="button"
+                                    onClick={() => setShowProxySettings(true)}
+                                    className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+                                >
+                                    <Network size={12} /> Fetch proxy settings
+                                </button>
+                            )}
+
+                            {activeModal === 'youtube' && (
+                                <div className="flex items-center gap-3 text-sm">
+                                    <input 
+                                        type="file" 
+                                        ref={captionInputRef} 
+                                        className="hidden" 
+                                        accept={CAPTION_ACCEPT}
+                                        onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+                                        disabled={isProcessing}
+                                    />
+                                    <button 
+                                        type="button"
+                                        onClick={() => captionInputRef.current?.click()}
+                                        disabled={isProcessing}
+                                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-slate-300 transition-colors shrink-0"
+                                    >
+                                        <Upload size={14} /> {selectedFile ? 'Change caption file' : 'Attach caption file'}
+                                    </button>
+                                    <span className="text-xs text-slate-500 truncate">
+                                        {selectedFile ? selectedFile.name : 'Optional: SRT, VTT or timedtext XML. Without one, captions are fetched from YouTube.'}
+                                    </span>
+                                </div>
+                            )}
+
                             {activeModal === 'file' && (
                                 <div 
                                     className={`border-2 border-dashed rounded-xl p-10 flex flex-col items-center justify-center cursor-pointer transition-all ${selectedFile ? `border-${theme.colors.primary}-500/50 bg-${theme.colors.primary}-500/5` : 'border-slate-700 hover:border-slate-500 hover:bg-slate-800'}`}
@@ -386,6 +858,7 @@ import React, { useState, useRef } from 'react';
                                         accept={
                                             fileType === 'pdf' ? "application/pdf" : 
                                             fileType === 'audio' ? "audio/*" : 
+                                            fileType === 'document' ? DOCUMENT_ACCEPT : 
                                             "image/*"
                                         }
                                         onChange={handleFileSelect}
@@ -404,12 +877,56 @@ import React, { useState, useRef } from 'react';
                                             <div className="w-12 h-12 bg-slate-800 text-slate-400 rounded-full flex items-center justify-center mb-3">
                                                 <Upload size={24} />
                                             </div>
-                                            <p className="font-medium text-slate-400">Click to Upload {fileType?.toUpperCase()}</p>
+                                            <p className="font-medium text-slate-400">Click to Upload {fileType === 'document' ? 'Document' : fileType?.toUpperCase()}</p>
+                                            {fileType === 'document' && <p className="text-xs text-slate-500 mt-1">Word (.docx), EPUB, Markdown, HTML or CSV</p>}
                                         </>
                                     )}
                                 </div>
                             )}
 
+                            {activeModal === 'references' && (
+                                <>
+                                    <div 
+                                        className={`border-2 border-dashed rounded-xl p-10 flex flex-col items-center justify-center cursor-pointer transition-all ${referenceEntries ? `border-${theme.colors.primary}-500/50 bg-${theme.colors.primary}-500/5` : 'border-slate-700 hover:border-slate-500 hover:bg-slate-800'}`}
+                                        onClick={() => !isProcessing && fileInputRef.current?.click()}
+                                    >
+                                        <input 
+                                            type="file" 
+                                            ref={fileInputRef} 
+                                            className="hidden" 
+                                            accept={REFERENCE_FILE_ACCEPT}
+                                            onChange={handleReferenceFileSelect}
+                                            disabled={isProcessing}
+                                        />
+                                        <div className={`w-12 h-12 rounded-full flex items-center justify-center mb-3 ${referenceEntries ? `bg-${theme.colors.primary}-500/20 text-${theme.colors.primary}-400` : 'bg-slate-800 text-slate-400'}`}>
+                                            <Upload size={24} />
+                                        </div>
+                                        {selectedFile ? (
+                                            <>
+                                                <p className="font-medium text-slate-200">{selectedFile.name}</p>
+                                                {referenceEntries && (
+                                                    <p className="text-xs text-slate-500 mt-1">
+                                                        {referenceEntries.length} entr{referenceEntries.length === 1 ? 'y' : 'ies'} • {referenceEntries.filter(e => e.abstract).length} with abstracts • {referenceEntries.filter(e => e.url).length} with links
+                                                    </p>
+                                                )}
+                                            </>
+                                        ) : (
+                                            <>
+                                                <p className="font-medium text-slate-400">Click to Upload a Library Export</p>
+                                                <p className="text-xs text-slate-500 mt-1">BibTeX (.bib) or RIS (.ris) from Zotero, Mendeley, EndNote and others</p>
+                                            </>
+                                        )}
+                                    </div>
+                                    <label className="flex items-start gap-2 text-sm text-slate-400 cursor-pointer">
+                                        <input type="checkbox" className="mt-1" checked={fetchFullTexts} onChange={(e) => setFetchFullTexts(e.target.checked)} disabled={isProcessing} />
+                                        <span>
+                                            Fetch full text from entry links
+                                            <span className="block text-xs text-slate-500">Otherwise each source holds the abstract. Paywalled pages keep the abstract.</span>
+                                        </span>
+                                    </label>
+                                </>
+                            )}
+
                             {error && (
                                 <div className="p-3 bg-rose-500/10 border border-rose-500/20 text-rose-400 text-sm rounded-lg">
                                     {error}
@@ -421,7 +938,7 @@ import React, { useState, useRef } from 'react';
                                     <Loader2 className={`animate-spin text-${theme.colors.primary}-400`} size={20} />
                                     <div className="text-sm">
                                         <p className={`text-${theme.colors.primary}-200 font-medium`}>Processing Source...</p>
-                                        <p className={`text-${theme.colors.primary}-500/70 text-xs`}>This may take a few seconds.</p>
+                                        <p className={`text-${theme.colors.primary}-500/70 text-xs`}>{statusMessage || 'This may take a few seconds.'}</p>
                                     </div>
                                 </div>
                             )}
@@ -436,11 +953,11 @@ import React, { useState, useRef } from 'react';
                                 </button>
                                 <button 
                                     onClick={handleAddSource}
-                                    disabled={isProcessing || (!inputValue && !selectedFile)}
+                                    disabled={isProcessing || (activeModal === 'references' ? !referenceEntries : !inputValue && !selectedFile)}
                                     className={`px-8 py-2.5 bg-gradient-to-r from-${theme.colors.primary}-600 to-${theme.colors.secondary}-600 rounded-xl font-bold hover:shadow-lg hover:shadow-${theme.colors.primary}-500/20 hover:scale-[1.02] transition-all disabled:opacity-50 disabled:hover:scale-100 flex items-center gap-2`}
                                 >
                                     {isProcessing ? <Loader2 className="animate-spin" size={16} /> : <PlusCircle size={18} />}
-                                    Add Source
+                                    {crawlMode ? 'Start Crawl' : activeModal === 'references' && referenceEntries ? `Import ${referenceEntries.length} Reference${referenceEntries.length === 1 ? '' : 's'}` : 'Add Source'}
                                 </button>
                             </div>
                         </div>
@@ -448,6 +965,20 @@ import React, { useState, useRef } from 'react';
                 </div>
             </div>
           )}
+
+          {showProxySettings && <ProxySettings onClose={() => setShowProxySettings(false)} />}
+          {diffSource && <SourceDiff source={diffSource} onClose={() => setDiffSourceId(null)} />}
+          {referenceSource && <ReferenceEditor source={referenceSource} onSave={(s) => onUpdateSources([s])} onClose={() => setReferenceSourceId(null)} />}
+          {showBibliography && <BibliographyExport sources={sources} excludedSourceIds={excludedSourceIds} onClose={() => setShowBibliography(false)} />}
+          {duplicates.length > 0 && (
+              <DuplicateDialog 
+                  key={duplicates[0].incoming.id}
+                  incoming={duplicates[0].incoming} 
+                  match={duplicates[0].match} 
+                  remaining={duplicates.length - 1} 
+                  onResolve={resolveDuplicates} 
+              />
+          )}
         </div>
       );
     };
@@ -2,14 +2,18 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Notebook, Artifact, AudioOverviewDialogue } from '../types';
 import { useTheme, useJobs } from '../contexts';
-import { Play, Pause, Headphones, Wand2, Mic, FileText, Layout, Zap, Trash2, RefreshCw, Box, FileQuestion, ChevronDown, ChevronUp, Grid2X2, ListOrdered, HelpCircle, RotateCcw, RotateCw, Loader2, PlayCircle } from 'lucide-react';
+import { Play, Pause, Headphones, Wand2, Mic, FileText, Layout, Zap, Trash2, RefreshCw, Box, FileQuestion, ChevronDown, ChevronUp, Grid2X2, ListOrdered, HelpCircle, RotateCcw, RotateCw, Loader2, PlayCircle, AlertTriangle } from 'lucide-react';
 import LiveSession from './LiveSession';
+import { getActiveSources, staleSourcesFor, audioCitationSpan } from '../services/sources';
 import AudioOverviewPanel from './AudioOverviewPanel';
 import { synthesizeDialogueAudio } from '../services/audioOverview';
+import { saveArtifactAudio, loadArtifactAudioUrl } from '../services/storage';
 
 interface Props {
   notebook: Notebook;
   onUpdate: (nb: Notebook) => void;
+  onOpenSource?: (sourceId: string, highlight?: { start: number; end: number }) => void;
+  readOnly?: boolean;
 }
 
 const getThemeHex = (colorName: string): string => {
@@ -23,7 +27,21 @@ const getThemeHex = (colorName: string): string => {
     return colors[colorName] || '#60a5fa';
 };
 
-const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
+// Shown when sources were refreshed with new text after the artifact was generated
+const StaleBadge: React.FC<{ artifact: Artifact, notebook: Notebook, className?: string }> = ({ artifact, notebook, className = '' }) => {
+  const stale = staleSourcesFor(artifact, notebook.sources);
+  if (stale.length === 0) return null;
+  return (
+      <span
+          className={`inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded px-1.5 py-0.5 ${className}`}
+          title={`Generated before these sources changed: ${stale.map(s => s.title).join(', ')}. Regenerate to use the current text.`}
+      >
+          <AlertTriangle size={10} /> Stale • {stale.length} source{stale.length === 1 ? '' : 's'} changed
+      </span>
+  );
+};
+
+const StudioTab: React.FC<Props> = ({ notebook, onUpdate, onOpenSource, readOnly = false }) => {
   const { theme } = useTheme();
   const { startJob, jobs } = useJobs();
   
@@ -41,6 +59,7 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
   
   // Synthesis State
   const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [storedAudioUrl, setStoredAudioUrl] = useState<string | null>(null);
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -53,14 +72,38 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
 
   // Parse Audio Artifact Content
   const audioContent = audioArtifact?.content as AudioOverviewDialogue | undefined;
-  const audioUrl = audioContent?.audioUrl || (audioArtifact?.content?.audioUrl as string);
+  const audioUrl = storedAudioUrl || audioContent?.audioUrl;
   const title = audioArtifact?.title;
-  const scriptText = audioContent?.turns 
-    ? audioContent.turns.map(t => `${t.speaker}: ${t.text}`).join('\n\n')
-    : (audioArtifact?.content?.script as string) || "";
+  const turns = audioContent?.turns || [];
   
   const dims = { canvasSize: 420, artSize: 200 };
 
+  // Re-hydrate persisted audio into a playable object URL. Re-synthesis bumps audioUpdatedAt,
+  // which loads the new bytes and revokes the URL of the old ones.
+  useEffect(() => {
+    if (!audioArtifact || !audioContent?.audioStored) {
+        setStoredAudioUrl(null);
+        return;
+    }
+    let objectUrl: string | undefined;
+    let cancelled = false;
+    loadArtifactAudioUrl(audioArtifact.id).then(url => {
+        if (cancelled) {
+            if (url) URL.revokeObjectURL(url);
+            return;
+        }
+        objectUrl = url;
+        setStoredAudioUrl(url || null);
+    }).catch(e => console.error("Failed to load stored audio", e));
+    return () => {
+        cancelled = true;
+        if (objectUrl) {
+            URL.revokeObjectURL(objectUrl);
+            setStoredAudioUrl(current => current === objectUrl ? null : current);
+        }
+    };
+  }, [audioArtifact?.id, audioContent?.audioStored, audioContent?.audioUpdatedAt]);
+
   useEffect(() => {
     return () => {
         if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
@@ -163,13 +206,15 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
     if (!audioContent || isSynthesizing) return;
     setIsSynthesizing(true);
     try {
-        const url = await synthesizeDialogueAudio(audioContent);
-        // Update artifact with audioUrl
+        const audio = await synthesizeDialogueAudio(audioContent);
+        await saveArtifactAudio(audioArtifact!.id, audio);
+        // Flag the artifact; the effect above turns the stored bytes into a playable URL
         const updatedArtifact: Artifact = {
             ...audioArtifact!,
             content: {
                 ...audioContent,
-                audioUrl: url
+                audioStored: true,
+                audioUpdatedAt: Date.now()
             }
         };
         handleSaveArtifact(updatedArtifact);
@@ -182,9 +227,10 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
   };
 
   const handleGenerateArtifact = async (type: Artifact['type']) => {
-      if ((notebook.sources || []).length === 0) return;
+      const activeSources = getActiveSources(notebook);
+      if (activeSources.length === 0) return;
       setGeneratingType(type);
-      await startJob(notebook.id, type, notebook.sources);
+      await startJob(notebook.id, type, activeSources);
       setGeneratingType(null);
   };
 
@@ -226,12 +272,11 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
   };
 
   const renderScript = () => {
-      if (!scriptText) return null;
-      return scriptText.split('\n').filter(line => line.trim() !== '').map((line, idx) => {
-          const isJoe = line.startsWith('Joe:') || line.startsWith('Atlas:');
-          const isJane = line.startsWith('Jane:') || line.startsWith('Nova:');
-          const speaker = isJoe ? (line.startsWith('Joe:') ? 'Joe' : 'Atlas') : isJane ? (line.startsWith('Jane:') ? 'Jane' : 'Nova') : '';
-          const text = speaker ? line.replace(`${speaker}:`, '').trim() : line;
+      return turns.map((turn, idx) => {
+          const isJoe = turn.speaker === 'Atlas';
+          const isJane = turn.speaker === 'Nova';
+          const speaker = turn.speaker;
+          const text = turn.text;
           
           return (
               <div 
@@ -247,11 +292,31 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
                       </div>
                   )}
                   <p className="text-slate-200 text-sm leading-relaxed">{text}</p>
+                  {onOpenSource && audioContent && turn.citations?.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                          {turn.citations.map((c, i) => {
+                              const source = notebook.sources.find(s => s.id === c.sourceId);
+                              if (!source) return null;
+                              return (
+                                  <button 
+                                    key={i}
+                                    onClick={() => onOpenSource(source.id, audioCitationSpan(audioContent, source, c.note))}
+                                    className="px-1.5 py-0.5 bg-slate-800 hover:bg-slate-700 rounded text-[10px] text-slate-400 hover:text-white border border-slate-700 truncate max-w-[200px] transition-colors"
+                                    title={c.note || source.title}
+                                  >
+                                      {source.title}
+                                  </button>
+                              );
+                          })}
+                      </div>
+                  )}
               </div>
           );
       });
   };
 
+  const activeSourceCount = getActiveSources(notebook).length;
+
   return (
     <div className="flex flex-col h-full gap-6">
         <div className="flex items-center justify-center p-1 bg-white/5 rounded-2xl self-center border border-white/5 shadow-inner">
@@ -274,6 +339,11 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
                 <Wand2 size={16} /> Knowledge Lab
             </button>
         </div>
+        {activeSourceCount < (notebook.sources || []).length && (
+            <p className="text-center text-xs text-slate-500 -mt-3">
+                {activeSourceCount} of {(notebook.sources || []).length} sources active. Change the selection in the Sources tab.
+            </p>
+        )}
 
         <div className="flex-1 overflow-y-auto">
             {activeView === 'live' && (
@@ -286,6 +356,7 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
                 <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 h-full">
                     {audioArtifact ? (
                         <div className="flex flex-col items-center justify-center relative min-h-[450px] p-8 glass-panel rounded-3xl overflow-hidden border border-white/10 shadow-2xl">
+                            <StaleBadge artifact={audioArtifact} notebook={notebook} className="absolute top-4 left-4 z-40" />
                             {/* IF AUDIO EXISTS: SHOW PLAYER */}
                             {audioUrl ? (
                                 <>
@@ -330,24 +401,24 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
                                         <h2 className="text-2xl font-bold text-white">Script Ready</h2>
                                         <p className="text-slate-400 max-w-md mt-2">The dialogue script has been generated. Generate the audio to listen to the conversation.</p>
                                     </div>
-                                    <button 
+                                    {!readOnly && <button 
                                         onClick={handleSynthesizeAudio}
                                         disabled={isSynthesizing}
                                         className={`px-8 py-4 bg-gradient-to-r from-${theme.colors.primary}-600 to-${theme.colors.secondary}-600 hover:from-${theme.colors.primary}-500 hover:to-${theme.colors.secondary}-500 text-white rounded-xl font-bold shadow-lg flex items-center gap-3 transition-all hover:scale-105 disabled:opacity-50`}
                                     >
                                         {isSynthesizing ? <Loader2 className="animate-spin" /> : <PlayCircle />}
                                         {isSynthesizing ? 'Synthesizing Voices...' : 'Generate Audio Now'}
-                                    </button>
+                                    </button>}
                                 </div>
                             )}
 
                             <div className="mt-8 flex flex-col items-center gap-4 relative z-20 w-full border-t border-white/5 pt-6">
-                                <div className="flex gap-4">
+                                {!readOnly && <div className="flex gap-4">
                                     <button onClick={() => handleDeleteArtifact(audioArtifact.id)} className="px-5 py-2.5 bg-white/5 hover:bg-rose-500/20 rounded-full text-xs font-bold text-rose-400 flex items-center gap-2 border border-white/10 transition-colors">
                                         <Trash2 size={14} /> Delete
                                     </button>
-                                </div>
-                                {scriptText && (
+                                </div>}
+                                {turns.length > 0 && (
                                     <div className="w-full max-w-2xl mt-4">
                                         <button onClick={() => setShowTranscript(!showTranscript)} className="mx-auto flex items-center gap-2 text-xs font-bold text-slate-400 hover:text-white transition-colors uppercase tracking-wider mb-2">
                                             {showTranscript ? 'Hide Transcript' : 'Show Transcript'}
@@ -358,15 +429,20 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
                                 )}
                             </div>
                         </div>
+                    ) : readOnly ? (
+                        <div className="flex flex-col items-center justify-center text-center p-12 glass-panel rounded-3xl border border-white/10 text-slate-400">
+                            <Headphones size={40} className="mb-4 opacity-50" />
+                            This shared notebook has no audio overview.
+                        </div>
                     ) : (
-                        <AudioOverviewPanel notebook={notebook} onSaveArtifact={handleSaveArtifact} />
+                        <AudioOverviewPanel notebook={notebook} onSaveArtifact={handleSaveArtifact} onOpenSource={onOpenSource} />
                     )}
                 </div>
             )}
 
             {activeView === 'lab' && (
                 <div className="max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-4">
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                    {!readOnly && <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
                         {[
                             { id: 'flashcards', label: 'Flashcards', icon: RefreshCw },
                             { id: 'quiz', label: 'Practice Quiz', icon: FileQuestion },
@@ -389,7 +465,7 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
                                 <span className="text-sm font-bold text-slate-300">{item.label}</span>
                             </button>
                         ))}
-                    </div>
+                    </div>}
                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {(notebook.artifacts || []).filter(a => a.type !== 'audioOverview').map((artifact) => (
                             <div key={artifact.id} className="glass-panel p-5 rounded-xl border border-white/5 flex items-start gap-4 group">
@@ -399,13 +475,14 @@ const StudioTab: React.FC<Props> = ({ notebook, onUpdate }) => {
                                 <div className="flex-1 min-w-0">
                                     <h4 className="font-bold text-slate-200 truncate">{artifact.title}</h4>
                                     <p className="text-xs text-slate-500 mt-1 capitalize">{artifact.status} • {new Date(artifact.createdAt).toLocaleDateString()}</p>
+                                    <StaleBadge artifact={artifact} notebook={notebook} className="mt-2" />
                                     {artifact.status === 'completed' && (
                                         <div className="mt-3 flex gap-2">
                                             <button onClick={() => openArtifactViewer(artifact)} className="text-xs bg-white/5 hover:bg-white/10 px-3 py-1.5 rounded-lg text-white transition-colors">{artifact.type === 'slideDeck' ? 'Present' : 'View'}</button>
                                         </div>
                                     )}
                                 </div>
-                                <button onClick={() => handleDeleteArtifact(artifact.id)} className="p-2 text-slate-600 hover:text-rose-500 hover:bg-rose-500/10 rounded-lg transition-colors opacity-0 group-hover:opacity-100"><Trash2 size={16} /></button>
+                                {!readOnly && <button onClick={() => handleDeleteArtifact(artifact.id)} className="p-2 text-slate-600 hover:text-rose-500 hover:bg-rose-500/10 rounded-lg transition-colors opacity-0 group-hover:opacity-100"><Trash2 size={16} /></button>}
                             </div>
                         ))}
                     </div>
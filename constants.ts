@@ -6,9 +6,15 @@ export const AUDIO_SAMPLE_RATE = 24000; // Gemini Live standard
 export const RAG_SYSTEM_INSTRUCTION = `You are a helpful AI research assistant inside a notebook app called Nebula Mind. 
 Answer questions based STRICTLY on the provided sources. 
 If the answer is not in the sources, state that clearly.
-Cite your sources by referring to the title of the document.
+Cite your sources inline with the numbers of the passages you used, e.g. [2].
 Keep answers concise and professional.`;
 
+// --- AUDIO OVERVIEW HOSTS ---
+export const AUDIO_HOSTS = {
+  nova: { name: "Nova" as const, persona: "Calm, grounded, explainer" },
+  atlas: { name: "Atlas" as const, persona: "Energetic, curious, explorer" }
+};
+
 // --- VOICE CONFIGURATION ---
 // Mapped to NotebookLM-style personas
 // Joe -> Atlas (Curious, energetic)
@@ -1,7 +1,7 @@
 
 import { createContext, useContext } from 'react';
 import { Theme, THEMES, ThemeId } from './constants';
-import { BackgroundJob, Notification, Artifact } from './types';
+import { BackgroundJob, Notification, Artifact, ScoutMission, ScoutConfig } from './types';
 
 // --- THEME CONTEXT ---
 interface ThemeContextType {
@@ -25,14 +25,26 @@ interface JobContextType {
   startJob: (notebookId: string, type: Artifact['type'], sources: any[], config?: any) => Promise<void>;
   jobs: BackgroundJob[];
   notifications: Notification[];
+  notify: (title: string, message: string, type: Notification['type']) => void;
   dismissNotification: (id: string) => void;
+  scoutMissions: ScoutMission[];
+  startScout: (notebookId: string, topic: string, config: ScoutConfig) => string;
+  cancelScout: (id: string) => void;
+  resumeScout: (id: string) => void;
+  dismissScout: (id: string) => void;
 }
 
 export const JobContext = createContext<JobContextType>({
   startJob: async () => {},
   jobs: [],
   notifications: [],
-  dismissNotification: () => {}
+  notify: () => {},
+  dismissNotification: () => {},
+  scoutMissions: [],
+  startScout: () => '',
+  cancelScout: () => {},
+  resumeScout: () => {},
+  dismissScout: () => {}
 });
 
 export const useJobs = () => useContext(JobContext);
@@ -0,0 +1,161 @@
+import { htmlToMarkdown } from './documents';
+
+// Readability-style extraction for web pages: strip page chrome, score blocks by how much
+// paragraph text they hold (penalising link-heavy ones), and keep the best block as Markdown.
+
+export interface ExtractedArticle {
+  title?: string;
+  content: string;
+  metadata: {
+    originalUrl: string;
+    siteName?: string;
+    author?: string;
+    authors?: string[];       // One entry per author, from scholarly citation_author tags
+    publishedAt?: string;
+    description?: string;
+    doi?: string;
+    journal?: string;
+    publisher?: string;
+  };
+}
+
+const REMOVED_SELECTOR = [
+  'script', 'style', 'noscript', 'iframe', 'svg', 'canvas', 'form', 'button', 'input', 'select', 'template',
+  'nav', 'footer', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+  '[aria-hidden="true"]', '[hidden]',
+].join(',');
+
+const JUNK_PATTERN = /cookie|consent|gdpr|banner|popup|modal|newsletter|subscribe|signup|sidebar|comment|share|social|related|recommend|promo|sponsor|advert|\bads?\b|breadcrumb|menu|masthead|footer|paywall|outbrain|taboola/i;
+const CONTENT_PATTERN = /article|content|entry|main|post|story|body|text/i;
+
+// Below this many characters the scored candidate is probably not the article
+const MIN_ARTICLE_LENGTH = 250;
+
+const textLength = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim().length;
+
+const linkDensity = (el: Element) => {
+  const total = textLength(el);
+  if (!total) return 0;
+  const linked = Array.from(el.querySelectorAll('a')).reduce((n, a) => n + textLength(a), 0);
+  return linked / total;
+};
+
+const classAndId = (el: Element) => `${el.getAttribute('class') || ''} ${el.id || ''}`;
+
+const stripChrome = (root: Element) => {
+  root.querySelectorAll(REMOVED_SELECTOR).forEach(el => el.remove());
+  root.querySelectorAll('div, section, header, ul, p, span').forEach(el => {
+    const names = classAndId(el);
+    if (JUNK_PATTERN.test(names) && !(CONTENT_PATTERN.test(names) && textLength(el) > 1000)) el.remove();
+  });
+  root.querySelectorAll('header').forEach(el => { if (linkDensity(el) > 0.5) el.remove(); });
+};
+
+const findMainElement = (body: HTMLElement): Element => {
+  // Semantic markup first
+  const marked = Array.from(body.querySelectorAll('[itemprop="articleBody"], article, main, [role="main"]'))
+    .sort((a, b) => textLength(b) - textLength(a))[0];
+  if (marked && textLength(marked) >= MIN_ARTICLE_LENGTH) return marked;
+
+  // Otherwise credit each paragraph's text to its parent (and half to its grandparent)
+  const scores = new Map<Element, number>();
+  body.querySelectorAll('p, pre, blockquote, li').forEach(p => {
+    const length = textLength(p);
+    if (length < 25) return;
+    const score = 1 + Math.min(length / 100, 3) + (p.textContent || '').split(',').length * 0.1;
+    const parent = p.parentElement;
+    if (!parent) return;
+    scores.set(parent, (scores.get(parent) || 0) + score);
+    if (parent.parentElement) scores.set(parent.parentElement, (scores.get(parent.parentElement) || 0) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, el) => {
+    const names = classAndId(el);
+    const adjusted = score * (1 - linkDensity(el)) + (CONTENT_PATTERN.test(names) ? 5 : 0) - (JUNK_PATTERN.test(names) ? 5 : 0);
+    if (adjusted > bestScore) { best = el; bestScore = adjusted; }
+  });
+  return best && textLength(best) >= MIN_ARTICLE_LENGTH ? best : body;
+};
+
+// --- METADATA ---
+
+const meta = (doc: Document, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = doc.querySelector(`meta[property="${key}"], meta[name="${key}"]`)?.getAttribute('content')?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+const metaAll = (doc: Document, key: string) =>
+  Array.from(doc.querySelectorAll(`meta[name="${key}"]`)).map(m => m.getAttribute('content')?.trim() || '').filter(Boolean);
+
+// schema.org Article data, when the page ships JSON-LD
+const readJsonLd = (doc: Document): Record<string, any> => {
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const nodes: any[] = (Array.isArray(data) ? data : [data]).flatMap(d => d?.['@graph'] || [d]);
+      const article = nodes.find(n => /Article|Posting|Report|BlogPosting/i.test(String(n?.['@type'] || '')));
+      if (article) return article;
+    } catch (e) { /* malformed JSON-LD is common; skip it */ }
+  }
+  return {};
+};
+
+const nameOf = (value: any): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(nameOf).filter(Boolean).join(', ') || undefined;
+  return value.name;
+};
+
+// "Headline | Site Name" -> "Headline"
+const cleanTitle = (title: string, siteName?: string) => {
+  const parts = title.split(/\s+[|\-–—·»]\s+/);
+  if (parts.length > 1 && (siteName ? parts.slice(1).some(p => p.trim() === siteName) : parts[0].length > 15)) return parts[0].trim();
+  return title.trim();
+};
+
+export const extractArticle = (html: string, url: string): ExtractedArticle => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const ld = readJsonLd(doc);
+
+  const siteName = meta(doc, 'og:site_name', 'application-name') || nameOf(ld.publisher) || (() => {
+    try { return new URL(url).hostname.replace(/^www\./, ''); } catch (e) { return undefined; }
+  })();
+  const rawTitle = meta(doc, 'og:title', 'twitter:title') || ld.headline || doc.title || doc.querySelector('h1')?.textContent || '';
+  const author = nameOf(ld.author) || meta(doc, 'author', 'article:author', 'parsely-author', 'twitter:creator')
+    || doc.querySelector('[rel="author"], [itemprop="author"]')?.textContent?.trim() || undefined;
+  const publishedAt = ld.datePublished || meta(doc, 'article:published_time', 'datePublished', 'date', 'pubdate', 'og:updated_time')
+    || doc.querySelector('time[datetime]')?.getAttribute('datetime') || undefined;
+  const description = meta(doc, 'og:description', 'description', 'twitter:description');
+  // Highwire Press tags, which journals and preprint servers publish for Google Scholar
+  const authors = metaAll(doc, 'citation_author');
+  const scholarDate = meta(doc, 'citation_publication_date', 'citation_date', 'citation_online_date')?.replace(/\//g, '-');
+  const doi = meta(doc, 'citation_doi', 'dc.identifier', 'DC.identifier', 'prism.doi')?.replace(/^(doi:|https?:\/\/(dx\.)?doi\.org\/)/i, '');
+  const journal = meta(doc, 'citation_journal_title', 'citation_conference_title', 'prism.publicationName');
+  const publisher = meta(doc, 'citation_publisher', 'dc.publisher', 'DC.publisher');
+
+  stripChrome(doc.body);
+  const content = htmlToMarkdown(findMainElement(doc.body));
+
+  return {
+    title: rawTitle ? cleanTitle(rawTitle.replace(/\s+/g, ' '), siteName) : undefined,
+    content,
+    metadata: {
+      originalUrl: url,
+      ...(siteName ? { siteName } : {}),
+      ...(author ? { author: author.replace(/\s+/g, ' ') } : authors.length ? { author: authors.join(', ') } : {}),
+      ...(authors.length ? { authors } : {}),
+      ...(scholarDate || publishedAt ? { publishedAt: scholarDate || publishedAt } : {}),
+      ...(description ? { description } : {}),
+      ...(doi && /^10\./.test(doi) ? { doi } : {}),
+      ...(journal ? { journal } : {}),
+      ...(publisher ? { publisher } : {}),
+    },
+  };
+};
@@ -1,7 +1,10 @@
 
 import { GoogleGenAI, Modality } from "@google/genai";
 import { Notebook, Source, AudioOverviewDialogue } from "../types";
-import { base64ToUint8Array, createWavUrl } from "./audioUtils";
+import { base64ToUint8Array, createWavBlob } from "./audioUtils";
+import { AUDIO_HOSTS } from "../constants";
+import { retrievePassages, joinPassages } from "./retrieval";
+import { getActiveSources } from "./sources";
 
 const MODEL_LOGIC = 'gemini-2.5-flash'; 
 const MODEL_CREATIVE = 'gemini-3-pro-preview'; 
@@ -37,13 +40,16 @@ const safeParseJson = async <T>(text: string, retryPrompt?: string): Promise<T>
   }
 };
 
-const packSources = (sources: Source[]) => {
-  return sources.map(s => ({
+const SOURCE_EXCERPT_BUDGET = 8000;
+
+// Each source contributes the passages most relevant to the episode topic
+const packSources = async (sources: Source[], topic: string) => {
+  return Promise.all(sources.map(async s => ({
     id: s.id,
     title: s.title,
-    contentExcerpt: s.content.slice(0, 8000), 
+    contentExcerpt: joinPassages(await retrievePassages([s], topic, { budget: SOURCE_EXCERPT_BUDGET })), 
     type: s.type
-  }));
+  })));
 };
 
 // --- STAGE 1: BLUEPRINT GENERATION ---
@@ -136,7 +142,7 @@ const generateDialogueScript = async (
 };
 
 // --- STAGE 3: SYNTHESIS ---
-export const synthesizeDialogueAudio = async (dialogue: AudioOverviewDialogue): Promise<string> => {
+export const synthesizeDialogueAudio = async (dialogue: AudioOverviewDialogue): Promise<Blob> => {
     let ttsString = "";
     
     // Convert to Gemini TTS Multi-speaker Format (Speaker: Text)
@@ -170,7 +176,7 @@ export const synthesizeDialogueAudio = async (dialogue: AudioOverviewDialogue):
     if (!base64Audio) throw new Error("Failed to synthesize audio.");
 
     const pcmBytes = base64ToUint8Array(base64Audio);
-    return createWavUrl(pcmBytes, 24000);
+    return createWavBlob(pcmBytes, 24000);
 };
 
 // --- MAIN GENERATOR FUNCTION ---
@@ -181,11 +187,12 @@ export const generateAudioOverviewDialogue = async (
   onProgress?: (step: string) => void
 ): Promise<AudioOverviewDialogue> => {
   
-  if (!notebook.sources || notebook.sources.length === 0) {
-    throw new Error("No sources available in notebook.");
+  const sources = getActiveSources(notebook);
+  if (sources.length === 0) {
+    throw new Error(notebook.sources?.length ? "All sources are switched off. Select at least one source." : "No sources available in notebook.");
   }
 
-  const packedSources = packSources(notebook.sources);
+  const packedSources = await packSources(sources, topic);
 
   // 1. Blueprint
   onProgress?.("Designing episode blueprint...");
@@ -200,13 +207,13 @@ export const generateAudioOverviewDialogue = async (
   
   const validatedTurns = scriptRaw.turns.map((turn: any) => {
     const validCitations = (turn.citations || []).filter((c: any) => 
-      notebook.sources.find(s => s.id === c.sourceId)
+      sources.find(s => s.id === c.sourceId)
     );
     return { ...turn, citations: validCitations };
   });
 
   const validatedFactChecks = (scriptRaw.factChecks || []).filter((fc: any) => {
-    const source = notebook.sources.find(s => s.id === fc.sourceId);
+    const source = sources.find(s => s.id === fc.sourceId);
     return !!source; 
   });
 
@@ -216,10 +223,7 @@ export const generateAudioOverviewDialogue = async (
     topic: topic,
     durationHint,
     createdAt: Date.now(),
-    hosts: {
-      nova: { name: "Nova", persona: "Calm, grounded, explainer" },
-      atlas: { name: "Atlas", persona: "Energetic, curious, explorer" }
-    },
+    hosts: AUDIO_HOSTS,
     coldOpen: scriptRaw.coldOpen || "Let's dive in.",
     turns: validatedTurns,
     factChecks: validatedFactChecks,
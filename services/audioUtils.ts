@@ -29,6 +29,11 @@ export function convertFloat32ToInt16(float32Array: Float32Array): Int16Array {
 
 // Function to add a WAV header to raw PCM data so it can be played in <audio> elements
 export function createWavUrl(samples: Uint8Array, sampleRate: number): string {
+  return URL.createObjectURL(createWavBlob(samples, sampleRate));
+}
+
+// Same as createWavUrl but returns the Blob itself, for callers that need to persist the bytes
+export function createWavBlob(samples: Uint8Array, sampleRate: number): Blob {
   const buffer = new ArrayBuffer(44 + samples.length);
   const view = new DataView(buffer);
 
@@ -63,8 +68,7 @@ export function createWavUrl(samples: Uint8Array, sampleRate: number): string {
   const dataView = new Uint8Array(buffer, 44);
   dataView.set(samples);
 
-  const blob = new Blob([buffer], { type: 'audio/wav' });
-  return URL.createObjectURL(blob);
+  return new Blob([buffer], { type: 'audio/wav' });
 }
 
 function writeString(view: DataView, offset: number, string: string) {
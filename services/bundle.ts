@@ -0,0 +1,206 @@
+import { Notebook, Artifact } from '../types';
+import { APP_NAME } from '../constants';
+import { exportNotebookSnapshot, importNotebookSnapshot, findExistingIds, CURRENT_SCHEMA_VERSION, BLOB_REF, NotebookSnapshot } from './storage';
+import { arrayBufferToBase64, base64ToUint8Array } from './audioUtils';
+import { sanitizeNoteHtml } from './notes';
+
+// Portable single-file notebook archive (JSON). Binary blobs (audio, images) are
+// base64-encoded alongside the notebook so the file is fully self-contained.
+
+const BUNDLE_FORMAT = 'nebula-notebook-bundle';
+const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.nebula.json';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  schemaVersion: number;
+  app: string;
+  exportedAt: number;
+  notebookId: string;
+  title: string;
+  counts: { sources: number; artifacts: number; blobs: number };
+  readOnly?: boolean;         // Shared snapshot: opened in the read-only viewer instead of imported
+}
+
+export interface NotebookBundle {
+  manifest: BundleManifest;
+  notebook: Notebook;
+  blobs: Record<string, { mimeType: string; data: string }>;
+}
+
+// --- ENCODING ---
+
+export const snapshotToBundle = async ({ notebook, blobs }: NotebookSnapshot, readOnly = false): Promise<NotebookBundle> => {
+  const encoded: NotebookBundle['blobs'] = {};
+  for (const [key, blob] of Object.entries(blobs)) {
+    encoded[key] = { mimeType: blob.type, data: arrayBufferToBase64(await blob.arrayBuffer()) };
+  }
+
+  return {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      bundleVersion: BUNDLE_VERSION,
+      schemaVersion: notebook.schemaVersion ?? 1,
+      app: APP_NAME,
+      exportedAt: Date.now(),
+      notebookId: notebook.id,
+      title: notebook.title,
+      counts: { sources: notebook.sources.length, artifacts: notebook.artifacts.length, blobs: Object.keys(encoded).length },
+      ...(readOnly ? { readOnly } : {}),
+    },
+    notebook,
+    blobs: encoded,
+  };
+};
+
+export const bundleToSnapshot = (bundle: NotebookBundle): NotebookSnapshot => {
+  const blobs: Record<string, Blob> = {};
+  Object.entries(bundle.blobs || {}).forEach(([key, { mimeType, data }]) => {
+    blobs[key] = new Blob([base64ToUint8Array(data)], { type: mimeType });
+  });
+  // Bundles and share links come from elsewhere; note HTML is rendered as markup in the editor
+  const notes = Array.isArray(bundle.notebook.notes)
+    ? bundle.notebook.notes.map(n => ({ ...n, content: sanitizeNoteHtml(String(n.content ?? '')) }))
+    : bundle.notebook.notes;
+  return {
+    notebook: { ...bundle.notebook, notes, schemaVersion: bundle.manifest.schemaVersion },
+    blobs,
+  };
+};
+
+export const parseBundle = (text: string): NotebookBundle => {
+  let bundle: NotebookBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e) {
+    throw new Error("This file is not a valid notebook bundle.");
+  }
+
+  const manifest = bundle?.manifest;
+  if (!manifest || manifest.format !== BUNDLE_FORMAT || !bundle.notebook) {
+    throw new Error("This file is not a Nebula Mind notebook bundle.");
+  }
+  if (manifest.bundleVersion > BUNDLE_VERSION || manifest.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error("This bundle was created by a newer version of the app. Please update and try again.");
+  }
+  return bundle;
+};
+
+// --- ID REMAPPING ---
+
+// Gives the notebook, its sources and artifacts fresh ids, rewriting every reference
+// (dialogue and chat citations, fact checks, blob keys) so nothing collides with existing data.
+export const remapSnapshotIds = ({ notebook, blobs }: NotebookSnapshot): NotebookSnapshot => {
+  const ids = new Map<string, string>();
+  const remap = (id: string) => {
+    if (!ids.has(id)) ids.set(id, crypto.randomUUID());
+    return ids.get(id)!;
+  };
+  const remapKey = (key: string) => {
+    const [owner, ...rest] = key.split('/');
+    return [remap(owner), ...rest].join('/');
+  };
+  const mapSourceId = (sourceId: string) => ids.get(sourceId) || sourceId;
+
+  const newNotebookId = remap(notebook.id);
+  const sources = notebook.sources.map(s => ({ ...s, id: remap(s.id) }));
+
+  const artifacts = notebook.artifacts.map((artifact): Artifact => {
+    const id = remap(artifact.id);
+    let content = artifact.content;
+    if (content && typeof content === 'object') {
+      content = { ...content };
+      Object.keys(content).forEach(field => {
+        const value = content[field];
+        if (typeof value === 'string' && value.startsWith(BLOB_REF)) {
+          content[field] = BLOB_REF + remapKey(value.slice(BLOB_REF.length));
+        }
+      });
+      if (Array.isArray(content.turns)) {
+        content.turns = content.turns.map((turn: any) => ({
+          ...turn,
+          citations: (turn.citations || []).map((c: any) => ({ ...c, sourceId: mapSourceId(c.sourceId) })),
+        }));
+      }
+      if (Array.isArray(content.factChecks)) {
+        content.factChecks = content.factChecks.map((fc: any) => ({ ...fc, sourceId: mapSourceId(fc.sourceId) }));
+      }
+      if (content.id === artifact.id) content.id = id;
+    }
+    const sourceVersions = artifact.sourceVersions &&
+      Object.fromEntries(Object.entries(artifact.sourceVersions).map(([sourceId, v]) => [mapSourceId(sourceId), v]));
+    return { ...artifact, id, content, ...(sourceVersions ? { sourceVersions } : {}) };
+  });
+
+  const remappedBlobs: Record<string, Blob> = {};
+  Object.entries(blobs).forEach(([key, blob]) => { remappedBlobs[remapKey(key)] = blob; });
+
+  const chatThreads = (notebook.chatThreads || []).map(thread => ({
+    ...thread,
+    messages: thread.messages.map(m => m.citations
+      ? { ...m, citations: m.citations.map(c => ({ ...c, sourceId: mapSourceId(c.sourceId) })) }
+      : m),
+  }));
+
+  return {
+    notebook: {
+      ...notebook,
+      id: newNotebookId,
+      sources,
+      artifacts,
+      chatThreads,
+      notes: (notebook.notes || []).map(n => n.promotedSourceId ? { ...n, promotedSourceId: mapSourceId(n.promotedSourceId) } : n),
+      excludedSourceIds: notebook.excludedSourceIds?.map(mapSourceId),
+    },
+    blobs: remappedBlobs,
+  };
+};
+
+// --- PUBLIC API ---
+
+export const createNotebookBundle = async (notebookId: string, readOnly = false): Promise<NotebookBundle> => {
+  const snapshot = await exportNotebookSnapshot(notebookId);
+  if (!snapshot) throw new Error("Notebook not found.");
+  return snapshotToBundle(snapshot, readOnly);
+};
+
+export const exportNotebookBundle = async (notebookId: string, readOnly = false): Promise<Blob> => {
+  const bundle = await createNotebookBundle(notebookId, readOnly);
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+// Restores a parsed bundle as a local notebook and returns its id.
+// Ids are remapped when they collide with existing data, or always when `forceNewIds` is set.
+export const restoreBundle = async (bundle: NotebookBundle, forceNewIds = false): Promise<string> => {
+  let snapshot = bundleToSnapshot(bundle);
+
+  const existing = await findExistingIds({
+    notebooks: [snapshot.notebook.id],
+    sources: snapshot.notebook.sources.map(s => s.id),
+    artifacts: snapshot.notebook.artifacts.map(a => a.id),
+  });
+  if (forceNewIds || existing.size > 0) snapshot = remapSnapshotIds(snapshot);
+
+  await importNotebookSnapshot({
+    ...snapshot,
+    notebook: { ...snapshot.notebook, updatedAt: Date.now() },
+  });
+  return snapshot.notebook.id;
+};
+
+export const bundleFileName = (title: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'notebook';
+  return `${slug}${BUNDLE_EXTENSION}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,378 @@
+import { Source, SourceReference, ReferenceKind } from '../types';
+
+// Bibliographic references for sources: derived from what ingestion recorded, editable by
+// the user, and exported as BibTeX, RIS, CSL-JSON or a formatted reference list.
+
+export type CitationStyle = 'apa' | 'mla' | 'chicago';
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl' | 'text';
+
+export const CITATION_STYLES: Record<CitationStyle, string> = {
+  apa: 'APA 7th',
+  mla: 'MLA 9th',
+  chicago: 'Chicago (author-date)',
+};
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { label: string; extension: string; mimeType: string }> = {
+  bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  ris: { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  csl: { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+  text: { label: 'Formatted', extension: 'txt', mimeType: 'text/plain' },
+};
+
+export const REFERENCE_KINDS: Record<ReferenceKind, string> = {
+  article: 'Journal article',
+  book: 'Book',
+  chapter: 'Book chapter',
+  conference: 'Conference paper',
+  report: 'Report',
+  thesis: 'Thesis',
+  webpage: 'Web page',
+  video: 'Video',
+  misc: 'Other',
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MLA_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+// --- DERIVING ---
+
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"'<>]+)/;
+// Front matter of a paper; DOIs further in are usually in the reference list
+const DOI_SCAN_LENGTH = 3000;
+const DOCUMENT_TYPES: Source['type'][] = ['pdf', 'docx', 'epub'];
+
+export const extractDoi = (text: string): string | undefined =>
+  text.match(DOI_PATTERN)?.[1].replace(/[.,;)\]]+$/, '');
+
+export const isoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// "Jane Doe" -> "Doe, Jane". Single words and "{Braced}" organisations stay as written.
+export const toSortName = (name: string) => {
+  const trimmed = name.trim();
+  if (trimmed.includes(',') || trimmed.startsWith('{')) return trimmed;
+  const parts = trimmed.split(/\s+/);
+  return parts.length < 2 ? trimmed : `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(' ')}`;
+};
+
+// Bylines: "By Jane Doe and John Smith", "Jane Doe, John Smith", "Doe, Jane"
+const splitByline = (byline: string): string[] => {
+  const parts = byline.replace(/^by\s+/i, '').split(/\s*(?:;|\||&|\band\b)\s*/i);
+  return parts
+    .flatMap(p => p.split(',').every(piece => /\S\s+\S/.test(piece.trim())) ? p.split(',') : [p])
+    .map(p => p.trim())
+    .filter(p => p && !p.startsWith('@') && !/^https?:/i.test(p));
+};
+
+const normalizeDate = (value?: string) => {
+  const parts = dateParts(value);
+  return parts ? parts.map((n, i) => i === 0 ? String(n) : String(n).padStart(2, '0')).join('-') : undefined;
+};
+
+// Best guess from ingestion metadata; the user can correct it in the reference editor.
+export const deriveReference = (source: Source): SourceReference => {
+  const meta = source.metadata || {};
+  const url: string | undefined = meta.originalUrl;
+  const doi: string | undefined = meta.doi || extractDoi(url || '')
+    || (DOCUMENT_TYPES.includes(source.type) ? extractDoi(source.content.slice(0, DOI_SCAN_LENGTH)) : undefined);
+  const authors: string[] = source.type === 'youtube'
+    ? (meta.author ? [`{${meta.author}}`] : [])
+    : (meta.authors?.length ? meta.authors : meta.author ? splitByline(meta.author) : []).map(toSortName);
+
+  return {
+    kind: doi || meta.journal ? 'article'
+      : source.type === 'website' ? 'webpage'
+      : source.type === 'youtube' ? 'video'
+      : source.type === 'epub' ? 'book'
+      : 'misc',
+    authors,
+    publishedAt: normalizeDate(meta.publishedAt),
+    publisher: meta.publisher,
+    containerTitle: meta.journal || meta.siteName || (source.type === 'youtube' ? 'YouTube' : undefined),
+    doi,
+    accessedAt: url ? isoDate(source.refreshedAt ?? source.createdAt) : undefined,
+  };
+};
+
+export const referenceOf = (source: Source): SourceReference => source.reference || deriveReference(source);
+
+// --- NAMES & DATES ---
+
+interface PersonName {
+  family: string;
+  given?: string;
+  literal?: boolean;          // Organisation, or a name that should not be inverted
+}
+
+const parseName = (name: string): PersonName => {
+  const trimmed = name.trim();
+  if (/^\{.*\}$/.test(trimmed)) return { family: trimmed.slice(1, -1), literal: true };
+  const comma = trimmed.indexOf(',');
+  if (comma === -1) return { family: trimmed, literal: true };
+  return { family: trimmed.slice(0, comma).trim(), given: trimmed.slice(comma + 1).trim() || undefined };
+};
+
+// [year, month?, day?]
+const dateParts = (value?: string): number[] | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?/);
+  if (match) return [match[1], match[2], match[3]].filter(Boolean).map(Number);
+  const parsed = Date.parse(value);
+  if (isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+};
+
+const initials = (given: string) =>
+  given.split(/\s+/).map(part => part.split('-').map(p => p[0] ? `${p[0].toUpperCase()}.` : '').join('-')).join(' ');
+
+// Two names still take a comma after an inverted first name ("Doe, Jane, and John Smith"), and always in APA
+const joinList = (items: string[], conjunction: string) =>
+  items.length <= 1 ? items.join('')
+  : items.length === 2 ? `${items[0]}${conjunction === '&' || items[0].includes(',') ? ',' : ''} ${conjunction} ${items[1]}`
+  : `${items.slice(0, -1).join(', ')}, ${conjunction} ${items[items.length - 1]}`;
+
+const withPeriod = (text: string) => /[.?!]$/.test(text) ? text : `${text}.`;
+
+const plainAuthor = (name: PersonName) => name.literal ? name.family : [name.family, name.given].filter(Boolean).join(', ');
+
+// --- CITATION KEYS ---
+
+const asciiWord = (text: string) => text.normalize('NFKD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+
+// Keys from an imported .bib are kept so exports round-trip; others are generated as
+// doe2021climate. Repeats get a, b, c... suffixes.
+const citationKeys = (sources: Source[]): Map<string, string> => {
+  const keys = new Map<string, string>();
+  const used = new Set<string>();
+  const claim = (source: Source, base: string) => {
+    let key = base;
+    for (let i = 0; used.has(key); i++) key = `${base}${String.fromCharCode(97 + i % 26)}${i >= 26 ? Math.floor(i / 26) : ''}`;
+    used.add(key);
+    keys.set(source.id, key);
+  };
+  const importedKey = (source: Source) => String(source.metadata?.citationKey ?? '').replace(/[\s,{}"#%'()=\\]/g, '');
+
+  // Imported keys first, so a generated key never takes one the user's library already uses
+  sources.filter(importedKey).forEach(source => claim(source, importedKey(source)));
+  sources.filter(source => !keys.has(source.id)).forEach(source => {
+    const ref = referenceOf(source);
+    const author = ref.authors[0] ? asciiWord(parseName(ref.authors[0]).family.split(/\s+/)[0]) : '';
+    const year = dateParts(ref.publishedAt)?.[0] ?? '';
+    const word = source.title.split(/\s+/).map(asciiWord).find(w => w.length > 3) || 'source';
+    claim(source, `${author || word}${year}${author ? word : ''}`);
+  });
+  return keys;
+};
+
+// --- BIBTEX ---
+
+const BIBTEX_TYPES: Record<ReferenceKind, string> = {
+  article: 'article', book: 'book', chapter: 'incollection', conference: 'inproceedings',
+  report: 'techreport', thesis: 'phdthesis', webpage: 'misc', video: 'misc', misc: 'misc',
+};
+
+const BIBTEX_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const bibtexEscape = (value: string) => value.replace(/([&%$#_{}])/g, '\\$1');
+
+const toBibTeX = (sources: Source[]) => {
+  const keys = citationKeys(sources);
+  return sources.map(source => {
+    const ref = referenceOf(source);
+    const date = dateParts(ref.publishedAt);
+    const url = source.metadata?.originalUrl;
+    const containerField = ref.kind === 'article' ? 'journal' : ref.kind === 'chapter' || ref.kind === 'conference' ? 'booktitle' : 'howpublished';
+    const publisherField = ref.kind === 'report' ? 'institution' : ref.kind === 'thesis' ? 'school' : 'publisher';
+    const fields: [string, string | undefined][] = [
+      // Organisations keep their braces so BibTeX does not split them into names
+      ['author', ref.authors.length ? ref.authors.map(a => /^\{.*\}$/.test(a.trim()) ? a.trim() : bibtexEscape(a.trim())).join(' and ') : undefined],
+      ['title', bibtexEscape(source.title)],
+      [containerField, ref.containerTitle && bibtexEscape(ref.containerTitle)],
+      [publisherField, ref.publisher && bibtexEscape(ref.publisher)],
+      ['year', date ? String(date[0]) : undefined],
+      ['volume', ref.volume],
+      ['number', ref.issue],
+      ['pages', ref.pages?.replace(/\s*[-–—]+\s*/, '--')],
+      ['doi', ref.doi],
+      ['url', url],
+      ['urldate', ref.accessedAt],
+    ];
+    const lines = fields.filter(([, value]) => value).map(([name, value]) => `  ${name} = {${value}}`);
+    if (date?.[1]) lines.splice(lines.findIndex(l => l.startsWith('  year')) + 1, 0, `  month = ${BIBTEX_MONTHS[date[1] - 1]}`);
+    return `@${BIBTEX_TYPES[ref.kind]}{${keys.get(source.id)},\n${lines.join(',\n')}\n}`;
+  }).join('\n\n');
+};
+
+// --- RIS ---
+
+const RIS_TYPES: Record<ReferenceKind, string> = {
+  article: 'JOUR', book: 'BOOK', chapter: 'CHAP', conference: 'CPAPER',
+  report: 'RPRT', thesis: 'THES', webpage: 'ELEC', video: 'VIDEO', misc: 'GEN',
+};
+
+// YYYY/MM/DD; a bare year is left to PY
+const risDate = (value?: string) => {
+  const parts = dateParts(value);
+  return parts && parts.length > 1 ? [parts[0], ...[parts[1], parts[2]].map(n => n ? String(n).padStart(2, '0') : '')].join('/') : undefined;
+};
+
+const toRIS = (sources: Source[]) =>
+  sources.map(source => {
+    const ref = referenceOf(source);
+    const [startPage, endPage] = (ref.pages || '').split(/\s*[-–—]+\s*/);
+    const tags: [string, string | undefined][] = [
+      ['TY', RIS_TYPES[ref.kind]],
+      ...ref.authors.map((a): [string, string] => ['AU', plainAuthor(parseName(a))]),
+      ['TI', source.title],
+      ['T2', ref.containerTitle],
+      ['PY', dateParts(ref.publishedAt)?.[0].toString()],
+      ['DA', risDate(ref.publishedAt)],
+      ['PB', ref.publisher],
+      ['VL', ref.volume],
+      ['IS', ref.issue],
+      ['SP', startPage || undefined],
+      ['EP', endPage || undefined],
+      ['DO', ref.doi],
+      ['UR', source.metadata?.originalUrl],
+      ['Y2', risDate(ref.accessedAt)],
+    ];
+    return [...tags.filter(([, value]) => value).map(([tag, value]) => `${tag}  - ${value}`), 'ER  - '].join('\n');
+  }).join('\n\n');
+
+// --- CSL-JSON ---
+
+const CSL_TYPES: Record<ReferenceKind, string> = {
+  article: 'article-journal', book: 'book', chapter: 'chapter', conference: 'paper-conference',
+  report: 'report', thesis: 'thesis', webpage: 'webpage', video: 'motion_picture', misc: 'document',
+};
+
+const toCSL = (sources: Source[]) => {
+  const keys = citationKeys(sources);
+  const items = sources.map(source => {
+    const ref = referenceOf(source);
+    const issued = dateParts(ref.publishedAt);
+    const accessed = dateParts(ref.accessedAt);
+    const item: Record<string, any> = {
+      id: keys.get(source.id),
+      type: CSL_TYPES[ref.kind],
+      title: source.title,
+      author: ref.authors.map(a => {
+        const name = parseName(a);
+        return name.literal ? { literal: name.family } : { family: name.family, ...(name.given ? { given: name.given } : {}) };
+      }),
+      issued: issued ? { 'date-parts': [issued] } : undefined,
+      accessed: accessed ? { 'date-parts': [accessed] } : undefined,
+      'container-title': ref.containerTitle,
+      publisher: ref.publisher,
+      volume: ref.volume,
+      issue: ref.issue,
+      page: ref.pages,
+      DOI: ref.doi,
+      URL: source.metadata?.originalUrl,
+    };
+    return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined && !(Array.isArray(value) && !value.length)));
+  });
+  return JSON.stringify(items, null, 2);
+};
+
+// --- FORMATTED STYLES ---
+
+// "May 4, 2021"
+const longDate = (parts: number[]) =>
+  parts.length === 1 ? String(parts[0])
+  : parts.length === 2 ? `${MONTHS[parts[1] - 1]} ${parts[0]}`
+  : `${MONTHS[parts[1] - 1]} ${parts[2]}, ${parts[0]}`;
+
+// "4 May 2021", "4 Sept. 2021"
+const mlaDate = (parts: number[]) => [parts[2], parts[1] && MLA_MONTHS[parts[1] - 1], parts[0]].filter(Boolean).join(' ');
+
+const linkOf = (source: Source, ref: SourceReference) => ref.doi ? `https://doi.org/${ref.doi}` : source.metadata?.originalUrl;
+
+const isStandalone = (kind: ReferenceKind) => kind === 'book' || kind === 'report' || kind === 'thesis' || kind === 'video';
+
+const formatAPA = (source: Source, ref: SourceReference) => {
+  const names = ref.authors.map(parseName).map(n => n.literal ? n.family : `${n.family}${n.given ? `, ${initials(n.given)}` : ''}`);
+  const date = dateParts(ref.publishedAt);
+  // Web pages and videos are dated to the day, everything else to the year
+  const when = !date ? 'n.d.' : (ref.kind === 'webpage' || ref.kind === 'video') && date.length === 3
+    ? `${date[0]}, ${MONTHS[date[1] - 1]} ${date[2]}` : String(date[0]);
+  const title = withPeriod(source.title);
+  const parts = names.length ? [withPeriod(joinList(names.slice(0, 20), '&')), `(${when}).`, title] : [title, `(${when}).`];
+
+  if (ref.kind === 'article' && ref.containerTitle) {
+    const volume = [ref.volume, ref.issue && `(${ref.issue})`].filter(Boolean).join('');
+    parts.push(withPeriod([ref.containerTitle, volume, ref.pages].filter(Boolean).join(', ')));
+  } else if ((ref.kind === 'chapter' || ref.kind === 'conference') && ref.containerTitle) {
+    parts.push(withPeriod(`In ${ref.containerTitle}${ref.pages ? ` (pp. ${ref.pages})` : ''}`));
+  } else if (ref.containerTitle && ref.containerTitle !== names[0]) {
+    parts.push(withPeriod(ref.containerTitle));
+  }
+  if (ref.publisher && ref.publisher !== ref.containerTitle && ref.kind !== 'article') parts.push(withPeriod(ref.publisher));
+  const link = linkOf(source, ref);
+  if (link) parts.push(!date && ref.accessedAt && !ref.doi ? `Retrieved ${longDate(dateParts(ref.accessedAt)!)}, from ${link}` : link);
+  return parts.join(' ');
+};
+
+const formatMLA = (source: Source, ref: SourceReference) => {
+  const names = ref.authors.map(parseName);
+  const first = names[0] && plainAuthor(names[0]);
+  const authors = names.length === 0 ? ''
+    : names.length === 1 ? first
+    : names.length === 2 ? `${first}, and ${names[1].literal ? names[1].family : [names[1].given, names[1].family].filter(Boolean).join(' ')}`
+    : `${first}, et al`;
+  const date = dateParts(ref.publishedAt);
+  const title = isStandalone(ref.kind) ? withPeriod(source.title) : `"${withPeriod(source.title)}"`;
+  const container = [
+    !isStandalone(ref.kind) && ref.containerTitle,
+    ref.volume && `vol. ${ref.volume}`,
+    ref.issue && `no. ${ref.issue}`,
+    ref.publisher && ref.publisher !== ref.containerTitle && ref.publisher,
+    date && mlaDate(date),
+    ref.pages && `pp. ${ref.pages}`,
+    // DOIs keep their https://doi.org/ prefix; other URLs drop the scheme
+    ref.doi ? linkOf(source, ref) : linkOf(source, ref)?.replace(/^https?:\/\//, ''),
+  ].filter(Boolean).join(', ');
+  const accessed = dateParts(ref.accessedAt);
+  return [authors && withPeriod(authors), title, container && withPeriod(container), !date && accessed && `Accessed ${mlaDate(accessed)}.`]
+    .filter(Boolean).join(' ');
+};
+
+const formatChicago = (source: Source, ref: SourceReference) => {
+  const names = ref.authors.map(parseName).map((n, i) =>
+    n.literal ? n.family : i === 0 ? plainAuthor(n) : [n.given, n.family].filter(Boolean).join(' '));
+  const date = dateParts(ref.publishedAt);
+  const title = isStandalone(ref.kind) ? withPeriod(source.title) : `"${withPeriod(source.title)}"`;
+  const parts = names.length ? [withPeriod(joinList(names.slice(0, 10), 'and')), `${date ? date[0] : 'n.d.'}.`, title] : [title, `${date ? date[0] : 'n.d.'}.`];
+
+  if (ref.kind === 'article' && ref.containerTitle) {
+    parts.push(withPeriod(`${ref.containerTitle}${ref.volume ? ` ${ref.volume}` : ''}${ref.issue ? ` (${ref.issue})` : ''}${ref.pages ? `: ${ref.pages}` : ''}`));
+  } else if ((ref.kind === 'chapter' || ref.kind === 'conference') && ref.containerTitle) {
+    parts.push(withPeriod(`In ${ref.containerTitle}${ref.pages ? `, ${ref.pages}` : ''}`));
+  } else if (ref.containerTitle) {
+    parts.push(withPeriod(ref.containerTitle));
+  }
+  if (ref.publisher && ref.publisher !== ref.containerTitle) parts.push(withPeriod(ref.publisher));
+  const accessed = dateParts(ref.accessedAt);
+  if (!date && accessed) parts.push(`Accessed ${longDate(accessed)}.`);
+  const link = linkOf(source, ref);
+  if (link) parts.push(withPeriod(link));
+  return parts.join(' ');
+};
+
+export const formatReference = (source: Source, style: CitationStyle) => {
+  const ref = referenceOf(source);
+  return style === 'apa' ? formatAPA(source, ref) : style === 'mla' ? formatMLA(source, ref) : formatChicago(source, ref);
+};
+
+// Reference lists are alphabetical by first author, or by title when there is none
+const sortKey = (source: Source) => {
+  const first = referenceOf(source).authors[0];
+  return (first ? parseName(first).family : source.title).replace(/^["'{]+/, '').toLowerCase();
+};
+
+export const exportBibliography = (sources: Source[], format: BibliographyFormat, style: CitationStyle = 'apa'): string => {
+  if (format === 'bibtex') return toBibTeX(sources);
+  if (format === 'ris') return toRIS(sources);
+  if (format === 'csl') return toCSL(sources);
+  return [...sources].sort((a, b) => sortKey(a).localeCompare(sortKey(b))).map(s => formatReference(s, style)).join('\n\n');
+};
@@ -0,0 +1,130 @@
+import { fetchViaProxy } from './proxy';
+import { extractArticle, ExtractedArticle } from './article';
+
+// Website crawl: pages come from a sitemap.xml or a breadth-first walk of same-site links
+// from the start URL, filtered by include/exclude patterns and capped by depth and page count.
+
+export interface CrawlOptions {
+  startUrl: string;
+  maxDepth: number;         // 0 = start page only; ignored for sitemaps
+  maxPages: number;
+  include: string[];        // URL patterns, "*" matches anything; empty = everything
+  exclude: string[];
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  article: ExtractedArticle;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  failures: { url: string; error: string }[];
+}
+
+// Nested sitemap indexes are followed this many levels deep
+const MAX_SITEMAP_NESTING = 2;
+// Pages skipped by include patterns are still fetched to follow their links; cap the total
+const MAX_FETCHES_PER_PAGE = 4;
+
+const SKIPPED_EXTENSIONS = /\.(pdf|zip|gz|tar|png|jpe?g|gif|svg|webp|ico|mp3|mp4|mov|avi|webm|css|js|json|xml|rss|woff2?|ttf|exe|dmg)$/i;
+
+export const parsePatterns = (text: string) =>
+  text.split(/[\n,]/).map(p => p.trim()).filter(Boolean);
+
+const patternToRegExp = (pattern: string) =>
+  new RegExp(pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*'), 'i');
+
+// Patterns without "*" match anywhere in the URL
+export const matchesPatterns = (url: string, include: string[], exclude: string[]) => {
+  const test = (pattern: string) => pattern.includes('*') ? patternToRegExp(pattern).test(url) : url.toLowerCase().includes(pattern.toLowerCase());
+  if (include.length > 0 && !include.some(test)) return false;
+  return !exclude.some(test);
+};
+
+const normalizeUrl = (href: string, base: string): string | null => {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch (e) { return null; }
+};
+
+export const isSitemapUrl = (url: string) => /sitemap[^/]*\.xml(\?.*)?$/i.test(url);
+
+const sitemapUrls = async (url: string, nesting = 0): Promise<string[]> => {
+  const doc = new DOMParser().parseFromString(await fetchViaProxy(url), 'application/xml');
+  const locs = (parent: string) => Array.from(doc.querySelectorAll(`${parent} > loc`)).map(el => (el.textContent || '').trim()).filter(Boolean);
+
+  const pages = locs('url');
+  const children = locs('sitemap');
+  if (nesting < MAX_SITEMAP_NESTING) {
+    for (const child of children) {
+      try { pages.push(...await sitemapUrls(child, nesting + 1)); }
+      catch (e) { console.warn(`Skipping sitemap ${child}`, e); }
+    }
+  }
+  return pages;
+};
+
+const pageLinks = (html: string, pageUrl: string, origin: string): string[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const links = new Set<string>();
+  doc.querySelectorAll('a[href]').forEach(a => {
+    const url = normalizeUrl(a.getAttribute('href') || '', pageUrl);
+    if (url && new URL(url).origin === origin && !SKIPPED_EXTENSIONS.test(new URL(url).pathname)) links.add(url);
+  });
+  return Array.from(links);
+};
+
+export const crawlWebsite = async (options: CrawlOptions, onProgress: (msg: string) => void): Promise<CrawlResult> => {
+  const start = normalizeUrl(options.startUrl, options.startUrl);
+  if (!start) throw new Error("Invalid start URL");
+  const origin = new URL(start).origin;
+  const allowed = (url: string) => matchesPatterns(url, options.include, options.exclude);
+  const result: CrawlResult = { pages: [], failures: [] };
+
+  const ingest = (url: string, depth: number, html: string) => {
+    const article = extractArticle(html, url);
+    if (article.content.trim()) result.pages.push({ url, depth, article });
+    else result.failures.push({ url, error: "No readable text" });
+  };
+
+  if (isSitemapUrl(start)) {
+    onProgress("Reading sitemap...");
+    const urls = Array.from(new Set(await sitemapUrls(start))).filter(allowed).slice(0, options.maxPages);
+    if (urls.length === 0) throw new Error("The sitemap lists no pages matching your patterns.");
+
+    for (const [i, url] of urls.entries()) {
+      onProgress(`Fetching page ${i + 1} of ${urls.length}: ${url}`);
+      try { ingest(url, 0, await fetchViaProxy(url)); }
+      catch (e: any) { result.failures.push({ url, error: e.message }); }
+    }
+  } else {
+    // Breadth-first; the start page is always fetched so its links can be followed, even if it is filtered out
+    const queue: { url: string; depth: number }[] = [{ url: start, depth: 0 }];
+    const seen = new Set([start]);
+    let fetches = 0;
+    while (queue.length > 0 && result.pages.length < options.maxPages && fetches++ < options.maxPages * MAX_FETCHES_PER_PAGE) {
+      const { url, depth } = queue.shift()!;
+      onProgress(`Fetching page ${result.pages.length + 1} of up to ${options.maxPages} (depth ${depth}): ${url}`);
+      let html: string;
+      try { html = await fetchViaProxy(url); }
+      catch (e: any) { result.failures.push({ url, error: e.message }); continue; }
+
+      if (allowed(url)) ingest(url, depth, html);
+      if (depth >= options.maxDepth) continue;
+      pageLinks(html, url, origin).forEach(link => {
+        if (seen.has(link)) return;
+        seen.add(link);
+        // Excluded pages are neither ingested nor followed
+        if (matchesPatterns(link, [], options.exclude)) queue.push({ url: link, depth: depth + 1 });
+      });
+    }
+  }
+
+  if (result.pages.length === 0) throw new Error(result.failures[0]?.error || "No pages could be crawled.");
+  return result;
+};
@@ -0,0 +1,77 @@
+// Thin promise wrapper around the browser IndexedDB API.
+// Notebooks, sources, artifacts and binary blobs live in separate object stores
+// so large notebooks are not limited by the ~5 MB localStorage quota.
+
+const DB_NAME = 'nebula_mind';
+const DB_VERSION = 2;
+
+export const STORES = {
+  notebooks: 'notebooks',
+  sources: 'sources',
+  artifacts: 'artifacts',
+  blobs: 'blobs',
+  scoutMissions: 'scoutMissions',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.notebooks)) {
+        db.createObjectStore(STORES.notebooks, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.sources)) {
+        const sources = db.createObjectStore(STORES.sources, { keyPath: 'id' });
+        sources.createIndex('notebookId', 'notebookId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.artifacts)) {
+        const artifacts = db.createObjectStore(STORES.artifacts, { keyPath: 'id' });
+        artifacts.createIndex('notebookId', 'notebookId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.blobs)) {
+        // Out-of-line keys: "<ownerId>/<field>"
+        db.createObjectStore(STORES.blobs);
+      }
+      if (!db.objectStoreNames.contains(STORES.scoutMissions)) {
+        const missions = db.createObjectStore(STORES.scoutMissions, { keyPath: 'id' });
+        missions.createIndex('notebookId', 'notebookId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+// Range covering every blob key owned by a notebook/artifact id ("<id>/...").
+export const ownerKeyRange = (ownerId: string): IDBKeyRange => {
+  return IDBKeyRange.bound(`${ownerId}/`, `${ownerId}/￿`);
+};
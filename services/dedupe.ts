@@ -0,0 +1,116 @@
+import { Source } from '../types';
+import { withNewContent } from './sources';
+
+// Duplicate detection for new sources: the same page under another URL form, the same
+// text uploaded twice, or a near copy (mirrors, reformatted reprints) by shingle overlap.
+
+export interface DuplicateMatch {
+  source: Source;                     // The existing source the new one duplicates
+  reason: 'url' | 'exact' | 'near';
+  similarity: number;                 // 0..1 share of text shingles in common
+}
+
+// Jaccard similarity at or above this counts as a near duplicate
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+const SHINGLE_WORDS = 5;
+// Keep 1 in N shingle hashes; enough to estimate overlap on long pages cheaply
+const SHINGLE_SAMPLE_RATE = 4;
+// Too little text to judge similarity reliably
+const MIN_COMPARABLE_WORDS = 50;
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|amp)$/i;
+
+// Same page regardless of scheme, "www.", fragments, tracking params, param order or trailing slash.
+export const normalizeUrl = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const path = parsed.pathname.replace(/\/(amp|index\.html?)$/i, '/').replace(/\/+$/, '');
+    const query = params.length ? '?' + new URLSearchParams(params).toString() : '';
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${path}${query}`;
+  } catch (e) { return null; }
+};
+
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const words = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+interface Fingerprint {
+  exact: number;
+  wordCount: number;
+  shingles: Set<number>;
+}
+
+// Fingerprints are cached per content string; the oldest entry goes first when full
+const fingerprints = new Map<string, Fingerprint>();
+const MAX_CACHED_FINGERPRINTS = 200;
+
+const fingerprint = (content: string): Fingerprint => {
+  const cached = fingerprints.get(content);
+  if (cached) return cached;
+  const tokens = words(content);
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_WORDS <= tokens.length; i++) {
+    const hash = fnv1a(tokens.slice(i, i + SHINGLE_WORDS).join(' '));
+    if (hash % SHINGLE_SAMPLE_RATE === 0) shingles.add(hash);
+  }
+  const result = { exact: fnv1a(tokens.join(' ')), wordCount: tokens.length, shingles };
+  if (fingerprints.size >= MAX_CACHED_FINGERPRINTS) fingerprints.delete(fingerprints.keys().next().value!);
+  fingerprints.set(content, result);
+  return result;
+};
+
+const jaccard = (a: Set<number>, b: Set<number>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let shared = 0;
+  small.forEach(h => { if (large.has(h)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// Strongest duplicate of `candidate` among `existing`, or null.
+export const findDuplicate = (candidate: Source, existing: Source[]): DuplicateMatch | null => {
+  const url = candidate.metadata?.originalUrl ? normalizeUrl(candidate.metadata.originalUrl) : null;
+  if (url) {
+    const sameUrl = existing.find(s => s.metadata?.originalUrl && normalizeUrl(s.metadata.originalUrl) === url);
+    if (sameUrl) return { source: sameUrl, reason: 'url', similarity: jaccard(fingerprint(candidate.content).shingles, fingerprint(sameUrl.content).shingles) };
+  }
+
+  const print = fingerprint(candidate.content);
+  if (print.wordCount === 0) return null;
+  let best: DuplicateMatch | null = null;
+  for (const source of existing) {
+    const other = fingerprint(source.content);
+    if (other.exact === print.exact) return { source, reason: 'exact', similarity: 1 };
+    if (print.wordCount < MIN_COMPARABLE_WORDS || other.wordCount < MIN_COMPARABLE_WORDS) continue;
+    const similarity = jaccard(print.shingles, other.shingles);
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && similarity > (best?.similarity ?? 0)) best = { source, reason: 'near', similarity };
+  }
+  return best;
+};
+
+export const describeDuplicate = (match: DuplicateMatch) =>
+  match.reason === 'url' ? 'Same URL'
+  : match.reason === 'exact' ? 'Identical text'
+  : `${Math.round(match.similarity * 100)}% similar text`;
+
+// Folds a duplicate into the existing source, which keeps its id so citations still resolve.
+// The other copy's URL or filename is remembered; if its text is fuller it becomes current
+// and the old text is kept as a version.
+export const mergeSources = (existing: Source, incoming: Source): Source => {
+  const alias = incoming.metadata?.originalUrl || incoming.metadata?.filename;
+  const aliases: string[] = Array.from(new Set([...(existing.metadata?.aliases || []), ...(alias ? [alias] : [])]));
+  const metadata = { ...incoming.metadata, ...existing.metadata, aliases };
+
+  if (incoming.content.length <= existing.content.length) return { ...existing, metadata };
+  return withNewContent(existing, incoming.content, metadata);
+};
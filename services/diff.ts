@@ -0,0 +1,59 @@
+// Line diff for source versions. Common prefix and suffix are trimmed first, so a
+// typical page edit only runs the LCS table over the changed middle.
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many LCS cells the middle is reported as a block replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (text: string) => text.replace(/\r\n?/g, '\n').split('\n');
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const head = a.slice(0, prefix).map((text): DiffLine => ({ type: 'same', text }));
+  const tail = a.slice(a.length - suffix).map((text): DiffLine => ({ type: 'same', text }));
+  const oldMid = a.slice(prefix, a.length - suffix);
+  const newMid = b.slice(prefix, b.length - suffix);
+
+  if (oldMid.length * newMid.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...oldMid.map((text): DiffLine => ({ type: 'removed', text })),
+      ...newMid.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of oldMid[i..] and newMid[j..]
+  const rows = oldMid.length, cols = newMid.length;
+  const lcs = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldMid[i] === newMid[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldMid[i] === newMid[j]) { middle.push({ type: 'same', text: oldMid[i] }); i++; j++; }
+    else if (i < rows && (j === cols || lcs[i + 1][j] >= lcs[i][j + 1])) { middle.push({ type: 'removed', text: oldMid[i] }); i++; }
+    else { middle.push({ type: 'added', text: newMid[j] }); j++; }
+  }
+  return [...head, ...middle, ...tail];
+};
+
+export const diffStats = (lines: DiffLine[]) => ({
+  added: lines.filter(l => l.type === 'added').length,
+  removed: lines.filter(l => l.type === 'removed').length,
+});
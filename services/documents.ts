@@ -0,0 +1,313 @@
+import { Source } from '../types';
+import { openZip } from './zip';
+
+// Local parsers for document uploads. Everything is converted to Markdown-flavoured text so
+// headings, lists and tables survive into Source.content (and into chunking and prompts).
+
+export type DocumentSourceType = Extract<Source['type'], 'docx' | 'epub' | 'markdown' | 'html' | 'csv'>;
+
+export interface ParsedDocument {
+  type: DocumentSourceType;
+  title?: string;
+  content: string;
+  metadata: Record<string, any>;
+}
+
+const EXTENSION_TYPES: Record<string, DocumentSourceType> = {
+  docx: 'docx',
+  epub: 'epub',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  csv: 'csv',
+};
+
+export const DOCUMENT_ACCEPT = Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`).join(',');
+
+export const documentTypeFor = (fileName: string): DocumentSourceType | null =>
+  EXTENSION_TYPES[fileName.split('.').pop()?.toLowerCase() || ''] || null;
+
+// --- SHARED: MARKDOWN HELPERS ---
+
+const collapse = (text: string) => text.replace(/[ \t\r\f\v ]+/g, ' ').replace(/ *\n */g, '\n').trim();
+
+const markdownTable = (rows: string[][]): string => {
+  const width = Math.max(0, ...rows.map(r => r.length));
+  if (width === 0) return '';
+  const cell = (text: string) => collapse(text).replace(/\n/g, ' ').replace(/\|/g, '\\|');
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i] || '')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [line(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.map(line)].join('\n');
+};
+
+// --- HTML ---
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'iframe', 'svg', 'template', 'head']);
+const BLOCK_SELECTOR = 'p,div,section,article,main,aside,header,footer,h1,h2,h3,h4,h5,h6,ul,ol,li,table,pre,blockquote,hr,figure,dl';
+
+const inlineText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const el = node as Element;
+  const tag = el.localName.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '\n';
+  const text = Array.from(el.childNodes).map(inlineText).join('');
+  const trimmed = text.trim();
+  if (!trimmed) return text;
+  if (tag === 'strong' || tag === 'b') return ` **${trimmed}** `;
+  if (tag === 'em' || tag === 'i') return ` *${trimmed}* `;
+  if (tag === 'code') return ` \`${trimmed}\` `;
+  return text;
+};
+
+const listLines = (list: Element, depth: number): string[] => {
+  const ordered = list.localName.toLowerCase() === 'ol';
+  const lines: string[] = [];
+  Array.from(list.children).filter(li => li.localName.toLowerCase() === 'li').forEach((li, i) => {
+    const own = Array.from(li.childNodes)
+      .filter(n => !(n.nodeType === Node.ELEMENT_NODE && ['ul', 'ol'].includes((n as Element).localName.toLowerCase())))
+      .map(inlineText).join('');
+    lines.push(`${'  '.repeat(depth)}${ordered ? `${i + 1}.` : '-'} ${collapse(own).replace(/\n/g, ' ')}`);
+    Array.from(li.children)
+      .filter(c => ['ul', 'ol'].includes(c.localName.toLowerCase()))
+      .forEach(nested => lines.push(...listLines(nested, depth + 1)));
+  });
+  return lines;
+};
+
+export const htmlToMarkdown = (root: Element): string => {
+  const blocks: string[] = [];
+  const push = (text: string) => { if (text.trim()) blocks.push(text); };
+
+  const walk = (el: Element) => {
+    el.childNodes.forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) { push(collapse(node.textContent || '')); return; }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const child = node as Element;
+      const tag = child.localName.toLowerCase();
+      if (SKIPPED_TAGS.has(tag)) return;
+
+      const heading = tag.match(/^h([1-6])$/);
+      if (heading) push(`${'#'.repeat(Number(heading[1]))} ${collapse(inlineText(child)).replace(/\n/g, ' ')}`);
+      else if (tag === 'ul' || tag === 'ol') push(listLines(child, 0).join('\n'));
+      else if (tag === 'table') push(markdownTable(Array.from(child.querySelectorAll('tr')).map(tr => Array.from(tr.children).map(inlineText))));
+      else if (tag === 'pre') push(`\`\`\`\n${(child.textContent || '').replace(/\n+$/, '')}\n\`\`\``);
+      else if (tag === 'blockquote') push(collapse(inlineText(child)).split('\n').map(l => `> ${l}`).join('\n'));
+      else if (tag === 'hr') push('---');
+      else if (child.querySelector(BLOCK_SELECTOR)) walk(child);
+      else push(collapse(inlineText(child)));
+    });
+  };
+
+  walk(root);
+  return blocks.join('\n\n');
+};
+
+const parseHtml = (html: string): ParsedDocument => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return {
+    type: 'html',
+    title: doc.title?.trim() || undefined,
+    content: htmlToMarkdown(doc.body),
+    metadata: {},
+  };
+};
+
+// --- MARKDOWN ---
+
+const parseMarkdown = (text: string): ParsedDocument => ({
+  type: 'markdown',
+  title: text.match(/^#\s+(.+)$/m)?.[1].trim(),
+  content: text.replace(/\r\n/g, '\n').trim(),
+  metadata: {},
+});
+
+// --- CSV ---
+
+const detectDelimiter = (firstLine: string) =>
+  [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+export const parseCsvRows = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') quoted = true;
+    else if (char === delimiter) { row.push(field); field = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+    } else field += char;
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+};
+
+const parseCsv = (text: string): ParsedDocument => {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) throw new Error("This CSV file is empty.");
+  return {
+    type: 'csv',
+    content: markdownTable(rows),
+    metadata: { columns: rows[0].map(c => c.trim()), rowCount: rows.length - 1 },
+  };
+};
+
+// --- DOCX ---
+
+const WORD_HEADING = /^(?:heading\s?(\d)|title)$/i;
+
+const attr = (el: Element | null | undefined, name: string) => el?.getAttribute(`w:${name}`) ?? el?.getAttribute(name) ?? null;
+const childNamed = (el: Element | null | undefined, name: string) => el ? Array.from(el.children).find(c => c.localName === name) || null : null;
+
+const wordRunText = (node: Element): string => {
+  let text = '';
+  node.childNodes.forEach(child => {
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+    const el = child as Element;
+    if (el.localName === 't') text += el.textContent || '';
+    else if (el.localName === 'tab') text += '\t';
+    else if (el.localName === 'br' || el.localName === 'cr') text += '\n';
+    else if (el.localName !== 'pPr' && el.localName !== 'rPr') text += wordRunText(el);
+  });
+  return text;
+};
+
+const parseDocxBody = (body: Element): string => {
+  const blocks: string[] = [];
+  let inList = false;
+
+  const visit = (el: Element) => {
+    Array.from(el.children).forEach(node => {
+      if (node.localName === 'sdt') { const content = childNamed(node, 'sdtContent'); if (content) visit(content); return; }
+
+      if (node.localName === 'tbl') {
+        const rows = Array.from(node.children).filter(r => r.localName === 'tr').map(tr =>
+          Array.from(tr.children).filter(c => c.localName === 'tc').map(tc =>
+            Array.from(tc.children).filter(p => p.localName === 'p').map(wordRunText).join(' ')));
+        if (rows.length) blocks.push(markdownTable(rows));
+        inList = false;
+        return;
+      }
+
+      if (node.localName !== 'p') return;
+      const text = collapse(wordRunText(node));
+      if (!text) return;
+      const props = childNamed(node, 'pPr');
+      const style = attr(childNamed(props, 'pStyle'), 'val') || '';
+      const heading = style.match(WORD_HEADING);
+      const numbering = childNamed(props, 'numPr');
+
+      if (heading) {
+        blocks.push(`${'#'.repeat(Math.min(Number(heading[1] || 1), 6))} ${text.replace(/\n/g, ' ')}`);
+        inList = false;
+      } else if (numbering) {
+        const level = Number(attr(childNamed(numbering, 'ilvl'), 'val') || 0);
+        const item = `${'  '.repeat(level)}- ${text.replace(/\n/g, ' ')}`;
+        // Keep consecutive list items in one block
+        if (inList) blocks[blocks.length - 1] += `\n${item}`;
+        else blocks.push(item);
+        inList = true;
+      } else {
+        blocks.push(text);
+        inList = false;
+      }
+    });
+  };
+
+  visit(body);
+  return blocks.join('\n\n');
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const parseDocx = async (file: File): Promise<ParsedDocument> => {
+  const zip = await openZip(file);
+  const documentXml = await zip.readText('word/document.xml');
+  if (!documentXml) throw new Error("This Word file has no document body.");
+  const body = parseXml(documentXml).getElementsByTagName('w:body')[0];
+  if (!body) throw new Error("Could not read this Word document.");
+
+  const coreXml = await zip.readText('docProps/core.xml');
+  const title = coreXml ? parseXml(coreXml).getElementsByTagName('dc:title')[0]?.textContent?.trim() : undefined;
+
+  return { type: 'docx', title: title || undefined, content: parseDocxBody(body), metadata: {} };
+};
+
+// --- EPUB ---
+
+const resolvePath = (base: string, href: string) => {
+  const parts = (base ? `${base}/${href}` : href).split('/');
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+};
+
+const parseEpub = async (file: File): Promise<ParsedDocument> => {
+  const zip = await openZip(file);
+  const container = await zip.readText('META-INF/container.xml');
+  const opfPath = container && parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opfText = opfPath && await zip.readText(opfPath);
+  if (!opfPath || !opfText) throw new Error("This EPUB is missing its package file.");
+
+  const opf = parseXml(opfText);
+  const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/')) : '';
+  const manifest = new Map<string, string>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, resolvePath(baseDir, href.split('#')[0]));
+  });
+
+  const chapters: { title: string; start: number; end: number }[] = [];
+  let content = '';
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const path = manifest.get(itemref.getAttribute('idref') || '');
+    const xhtml = path && await zip.readText(path);
+    if (!xhtml) continue;
+    let doc = new DOMParser().parseFromString(xhtml, 'application/xhtml+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) doc = new DOMParser().parseFromString(xhtml, 'text/html');
+    const body = doc.getElementsByTagName('body')[0];
+    const text = body ? htmlToMarkdown(body) : '';
+    if (!text) continue;
+
+    if (content) content += '\n\n';
+    const heading = text.match(/^#{1,6}\s+(.+)$/m)?.[1];
+    chapters.push({ title: heading || `Chapter ${chapters.length + 1}`, start: content.length, end: content.length + text.length });
+    content += text;
+  }
+
+  const title = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim();
+  const author = opf.getElementsByTagName('dc:creator')[0]?.textContent?.trim();
+  return { type: 'epub', title: title || undefined, content, metadata: { chapters, ...(author ? { author } : {}) } };
+};
+
+// --- PUBLIC API ---
+
+export const parseDocumentFile = async (file: File): Promise<ParsedDocument> => {
+  const type = documentTypeFor(file.name);
+  switch (type) {
+    case 'docx': return parseDocx(file);
+    case 'epub': return parseEpub(file);
+    case 'markdown': return parseMarkdown(await file.text());
+    case 'html': return parseHtml(await file.text());
+    case 'csv': return parseCsv(await file.text());
+    default: throw new Error(`Unsupported document type. Use ${DOCUMENT_ACCEPT}.`);
+  }
+};
@@ -0,0 +1,57 @@
+import { Note, Source } from '../types';
+
+// Notes are stored as the HTML produced by the notes editor. These helpers move text
+// in and out of that format for pinning chat answers and promoting notes to sources.
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const textToNoteHtml = (text: string) =>
+  text.split(/\n{2,}/).map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('');
+
+// Tags the notes editor produces (contenteditable wraps new lines in <div>). Everything else is
+// unwrapped to its text, and no attributes survive, so imported or shared notes cannot carry script.
+const NOTE_TAGS = new Set(['P', 'DIV', 'BR', 'B', 'STRONG', 'I', 'EM', 'H2', 'UL', 'OL', 'LI']);
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'IFRAME', 'OBJECT', 'EMBED', 'NOSCRIPT', 'SVG', 'MATH']);
+
+export const sanitizeNoteHtml = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const clean = (node: Node, target: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        target.appendChild(document.createTextNode(child.textContent || ''));
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const tag = (child as Element).tagName.toUpperCase();
+        if (DROPPED_TAGS.has(tag)) return;
+        if (NOTE_TAGS.has(tag)) clean(child, target.appendChild(document.createElement(tag.toLowerCase())));
+        else clean(child, target);
+      }
+    });
+  };
+  const container = document.createElement('div');
+  clean(doc.body, container);
+  return container.innerHTML;
+};
+
+export const noteToPlainText = (html: string) => {
+  const withBreaks = html
+    .replace(/<li[^>]*>/gi, '\n• ')
+    .replace(/<(br|\/p|\/div|\/h[1-6]|\/li|\/ul|\/ol)[^>]*>/gi, '\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export const createNote = (title: string, content: string, origin?: Note['origin']): Note => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), title: title.trim() || 'Untitled note', content, createdAt: now, updatedAt: now, ...(origin ? { origin } : {}) };
+};
+
+// Builds (or refreshes) the source a note is promoted into.
+export const noteToSource = (note: Note, existing?: Source): Source => ({
+  id: existing?.id || crypto.randomUUID(),
+  type: 'copiedText',
+  title: note.title,
+  content: noteToPlainText(note.content),
+  createdAt: existing?.createdAt || Date.now(),
+  metadata: { ...existing?.metadata, noteId: note.id },
+});
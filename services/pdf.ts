@@ -0,0 +1,111 @@
+import { getDocument, GlobalWorkerOptions, PDFPageProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { transcribePageImage } from './ai';
+
+// In-browser PDF text extraction. Pages with an embedded text layer are read locally;
+// only pages that look scanned (no usable text) are rendered and sent to the model.
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+// Fewer non-whitespace characters than this and the page is treated as a scan
+const MIN_PAGE_TEXT = 25;
+const OCR_RENDER_SCALE = 2;
+// A rendered page with fewer inked pixels than this share is blank (separator, back cover)
+const MIN_INK_RATIO = 0.002;
+const INK_SAMPLE_WIDTH = 200;
+const PAGE_SEPARATOR = '\n\n';
+
+export interface PdfPageSpan {
+  page: number;             // 1-based
+  start: number;            // Character span in the extracted content
+  end: number;
+}
+
+export interface PdfExtraction {
+  content: string;
+  pageCount: number;
+  pages: PdfPageSpan[];
+  ocrPages: number[];       // Pages transcribed by the model
+  ocrFailedPages: number[]; // Scanned pages the model could not transcribe; left out of the content
+}
+
+const readTextLayer = async (page: PDFPageProxy): Promise<string> => {
+  const { items } = await page.getTextContent();
+  let text = '';
+  items.forEach(item => {
+    if (!('str' in item)) return;
+    text += item.str;
+    text += item.hasEOL ? '\n' : (item.str && !item.str.endsWith(' ') ? ' ' : '');
+  });
+  return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const renderPage = async (page: PDFPageProxy): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  return canvas;
+};
+
+// Compares a downscaled copy against its corner colour, so a blank page is never sent to the model
+const isBlankPage = (canvas: HTMLCanvasElement): boolean => {
+  const sample = document.createElement('canvas');
+  sample.width = Math.min(INK_SAMPLE_WIDTH, canvas.width);
+  sample.height = Math.max(1, Math.round(canvas.height * sample.width / canvas.width));
+  const ctx = sample.getContext('2d');
+  if (!ctx) return false;
+  ctx.drawImage(canvas, 0, 0, sample.width, sample.height);
+  const { data } = ctx.getImageData(0, 0, sample.width, sample.height);
+  const [r, g, b] = [data[0], data[1], data[2]];
+  let inked = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (Math.abs(data[i] - r) + Math.abs(data[i + 1] - g) + Math.abs(data[i + 2] - b) > 48) inked++;
+  }
+  return inked / (data.length / 4) < MIN_INK_RATIO;
+};
+
+export const extractPdfText = async (file: File, onProgress?: (msg: string) => void): Promise<PdfExtraction> => {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: PdfPageSpan[] = [];
+  const ocrPages: number[] = [];
+  const ocrFailedPages: number[] = [];
+  let content = '';
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      onProgress?.(`Reading page ${pageNumber} of ${pdf.numPages}...`);
+      const page = await pdf.getPage(pageNumber);
+      let text = await readTextLayer(page);
+
+      if (text.replace(/\s/g, '').length < MIN_PAGE_TEXT) {
+        const canvas = await renderPage(page);
+        if (!isBlankPage(canvas)) {
+          onProgress?.(`Page ${pageNumber} looks scanned, transcribing...`);
+          // One failed model call keeps the page's own text and the rest of the document
+          try {
+            text = (await transcribePageImage(canvas.toDataURL('image/png').split(',')[1], pageNumber)).trim();
+            ocrPages.push(pageNumber);
+          } catch (e) {
+            console.warn(`Could not transcribe page ${pageNumber}`, e);
+            ocrFailedPages.push(pageNumber);
+          }
+        }
+      }
+      page.cleanup();
+
+      if (!text) continue;
+      if (content) content += PAGE_SEPARATOR;
+      pages.push({ page: pageNumber, start: content.length, end: content.length + text.length });
+      content += text;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  if (!content && ocrFailedPages.length > 0) {
+    throw new Error(`No text layer, and transcription failed for ${ocrFailedPages.length} scanned page${ocrFailedPages.length === 1 ? '' : 's'}. Please try again.`);
+  }
+  return { content, pageCount: pdf.numPages, pages, ocrPages, ocrFailedPages };
+};
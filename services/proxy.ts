@@ -0,0 +1,113 @@
+// Cross-origin fetches for website and YouTube ingestion go through user-configured proxies,
+// tried in order. The local proxy is served by the Vite dev/preview server (see vite.config.ts);
+// the public ones see every URL you fetch, so they start switched off.
+
+export interface FetchProxy {
+  id: string;
+  name: string;
+  template: string;         // "{url}" is replaced with the encoded target URL
+  enabled: boolean;
+  timeoutMs: number;
+}
+
+export interface ProxyHealth {
+  status: 'ok' | 'failing';
+  checkedAt: number;
+  latencyMs?: number;
+  error?: string;
+}
+
+const SETTINGS_KEY = 'nebula_fetch_proxies';
+const HEALTH_KEY = 'nebula_fetch_proxy_health';
+const TEST_URL = 'https://example.com/';
+
+export const DEFAULT_TIMEOUT_MS = 15_000;
+
+export const DEFAULT_PROXIES: FetchProxy[] = [
+  { id: 'local', name: 'Local proxy', template: '/__proxy?url={url}', enabled: true, timeoutMs: DEFAULT_TIMEOUT_MS },
+  { id: 'corsproxy', name: 'corsproxy.io', template: 'https://corsproxy.io/?{url}', enabled: false, timeoutMs: DEFAULT_TIMEOUT_MS },
+  { id: 'allorigins', name: 'AllOrigins', template: 'https://api.allorigins.win/raw?url={url}', enabled: false, timeoutMs: DEFAULT_TIMEOUT_MS },
+  { id: 'codetabs', name: 'CodeTabs', template: 'https://api.codetabs.com/v1/proxy?quest={url}', enabled: false, timeoutMs: DEFAULT_TIMEOUT_MS },
+];
+
+// --- SETTINGS ---
+
+export const loadProxies = (): FetchProxy[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (Array.isArray(saved)) return saved;
+  } catch (e) { console.warn("Ignoring unreadable proxy settings", e); }
+  return DEFAULT_PROXIES;
+};
+
+export const saveProxies = (proxies: FetchProxy[]) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(proxies));
+};
+
+export const expandTemplate = (template: string, url: string) =>
+  template.includes('{url}') ? template.split('{url}').join(encodeURIComponent(url)) : template + encodeURIComponent(url);
+
+// --- HEALTH ---
+
+type HealthListener = (health: Record<string, ProxyHealth>) => void;
+const listeners = new Set<HealthListener>();
+
+export const loadProxyHealth = (): Record<string, ProxyHealth> => {
+  try { return JSON.parse(localStorage.getItem(HEALTH_KEY) || '{}'); } catch (e) { return {}; }
+};
+
+const recordHealth = (id: string, health: ProxyHealth) => {
+  const all = { ...loadProxyHealth(), [id]: health };
+  localStorage.setItem(HEALTH_KEY, JSON.stringify(all));
+  listeners.forEach(l => l(all));
+};
+
+export const subscribeProxyHealth = (listener: HealthListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- FETCHING ---
+
+const fetchThrough = async (proxy: FetchProxy, url: string): Promise<string> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), proxy.timeoutMs || DEFAULT_TIMEOUT_MS);
+  const started = Date.now();
+  try {
+    const response = await fetch(expandTemplate(proxy.template, url), { signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const text = await response.text();
+    recordHealth(proxy.id, { status: 'ok', checkedAt: Date.now(), latencyMs: Date.now() - started });
+    return text;
+  } catch (e: any) {
+    const error = e.name === 'AbortError' ? `timed out after ${Math.round(proxy.timeoutMs / 1000)}s` : (e.message || 'network error');
+    recordHealth(proxy.id, { status: 'failing', checkedAt: Date.now(), error });
+    throw new Error(error);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Fetches a cross-origin URL as text through the enabled proxies in order, first success wins.
+// Throws with every proxy's failure reason when none succeeds.
+export const fetchViaProxy = async (url: string): Promise<string> => {
+  const proxies = loadProxies().filter(p => p.enabled);
+  if (proxies.length === 0) throw new Error("No fetch proxy is enabled. Turn one on in Fetch Proxy settings.");
+
+  const failures: string[] = [];
+  for (const proxy of proxies) {
+    try {
+      return await fetchThrough(proxy, url);
+    } catch (e: any) {
+      console.warn(`Proxy failed: ${proxy.name}`, e);
+      failures.push(`${proxy.name}: ${e.message}`);
+    }
+  }
+  throw new Error(`Could not fetch ${url}. Every fetch proxy failed (${failures.join('; ')}). Check Fetch Proxy settings.`);
+};
+
+// Health check against a small, stable page.
+export const testProxy = async (proxy: FetchProxy): Promise<ProxyHealth> => {
+  try { await fetchThrough(proxy, TEST_URL); } catch (e) { /* recorded below */ }
+  return loadProxyHealth()[proxy.id];
+};
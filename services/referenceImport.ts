@@ -0,0 +1,301 @@
+import { Source, SourceReference, ReferenceKind } from '../types';
+import { toSortName } from './citations';
+import { fetchWebsiteArticle } from './ai';
+
+// Reading lists exported from reference managers (Zotero, Mendeley, EndNote) as BibTeX or
+// RIS. Each entry becomes a source whose text is its abstract until the full text is fetched.
+
+export interface ImportedEntry {
+  title: string;
+  reference: SourceReference;
+  abstract?: string;
+  url?: string;
+  keywords: string[];
+  citationKey?: string;       // BibTeX key, kept so exports can round-trip
+}
+
+export const REFERENCE_FILE_ACCEPT = '.bib,.bibtex,.ris,application/x-bibtex,application/x-research-info-systems';
+
+// --- BIBTEX ---
+
+const BIBTEX_KINDS: Record<string, ReferenceKind> = {
+  article: 'article', book: 'book', booklet: 'book', incollection: 'chapter', inbook: 'chapter',
+  inproceedings: 'conference', conference: 'conference', proceedings: 'book',
+  techreport: 'report', report: 'report', phdthesis: 'thesis', mastersthesis: 'thesis', thesis: 'thesis',
+  online: 'webpage', electronic: 'webpage', www: 'webpage', video: 'video', movie: 'video',
+};
+
+const BIBTEX_MONTHS: Record<string, number> = { jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12 };
+
+// Combining marks for \"u, \'e, \c{c} and friends
+const ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  c: '\u0327', v: '\u030C', u: '\u0306', H: '\u030B', k: '\u0328',
+};
+
+const LATEX_LETTERS: Record<string, string> = { ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı' };
+
+// Accents, escapes and formatting commands to plain Unicode; case-protecting braces are dropped
+const fromLatex = (value: string) => value
+  .replace(/\\(["'`^~=.])\s*\{?\s*([A-Za-z])\s*\}?/g, (_, accent, letter) => letter + ACCENTS[accent])
+  .replace(/\\([cvuHk])(?:\s*\{\s*([A-Za-z])\s*\}|\s+([A-Za-z]))/g, (_, accent, a, b) => (a || b) + ACCENTS[accent])
+  .replace(/\\(ss|ae|AE|oe|OE|aa|AA|[oOlLi])\b\s*/g, (_, letter) => LATEX_LETTERS[letter])
+  .replace(/\\(?:textit|textbf|emph|textsc|texttt|mathrm|url|href)\s*\{([^{}]*)\}/g, '$1')
+  .replace(/(?<!\\)[{}]/g, '')
+  .replace(/\\([&%$#_{}])/g, '$1')
+  .replace(/~/g, ' ')
+  .replace(/---?/g, m => m === '---' ? '—' : '–')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .normalize('NFC');
+
+// Index just past the delimiter that closes the one at `start`: {...}, (...) or "..."
+const closingIndex = (text: string, start: number) => {
+  const open = text[start];
+  const close = open === '{' ? '}' : open === '(' ? ')' : '"';
+  let depth = 0;
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') { i++; continue; }
+    if (depth === 0 && ch === close) return i + 1;
+    // Quoted values may hold braces; parenthesised entries nest on braces too
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+  }
+  return text.length;
+};
+
+// name = {value} # "more" # macro, ...
+const parseBibtexFields = (body: string, strings: Map<string, string>): Map<string, string> => {
+  const fields = new Map<string, string>();
+  let i = 0;
+  while (i < body.length) {
+    const match = /^[\s,]*([\w:.-]+)\s*=\s*/.exec(body.slice(i));
+    if (!match) break;
+    i += match[0].length;
+    let value = '';
+    while (i < body.length) {
+      if (body[i] === '{' || body[i] === '"') {
+        const end = closingIndex(body, i);
+        value += body.slice(i + 1, end - 1);
+        i = end;
+      } else {
+        const word = /^[\w:.-]+/.exec(body.slice(i))?.[0] || '';
+        value += strings.get(word.toLowerCase()) ?? word;
+        i += Math.max(word.length, 1);
+      }
+      const next = /^\s*#\s*/.exec(body.slice(i));
+      if (!next) break;
+      i += next[0].length;
+    }
+    fields.set(match[1].toLowerCase(), value);
+  }
+  return fields;
+};
+
+// Splits on "and" outside braces, so {Barnes and Noble} stays one name
+const splitBibtexNames = (value: string): string[] => {
+  const names: string[] = [];
+  let depth = 0, start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    else if (depth === 0 && /\s/.test(ch)) {
+      const separator = /^\s+and\s+/i.exec(value.slice(i));
+      if (separator) {
+        names.push(value.slice(start, i));
+        i += separator[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  names.push(value.slice(start));
+  return names.map(n => n.trim()).filter(n => n && n.toLowerCase() !== 'others');
+};
+
+// A fully braced name is an organisation and keeps its braces; others become "Family, Given"
+const bibtexName = (name: string) => /^\{[^{}]*\}$/.test(name) ? `{${fromLatex(name)}}` : toSortName(fromLatex(name));
+
+const bibtexDate = (fields: Map<string, string>) => {
+  const date = fields.get('date');
+  if (date) return fromLatex(date).split('/')[0];
+  const year = fields.get('year') && fromLatex(fields.get('year')!).match(/\d{4}/)?.[0];
+  if (!year) return undefined;
+  const rawMonth = fields.get('month')?.trim().toLowerCase() || '';
+  const month = BIBTEX_MONTHS[rawMonth.slice(0, 3)] || Number(rawMonth) || 0;
+  return month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : year;
+};
+
+export const parseBibTeX = (text: string): ImportedEntry[] => {
+  const strings = new Map<string, string>();
+  const entries: ImportedEntry[] = [];
+  const entryStart = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryStart.exec(text))) {
+    const type = match[1].toLowerCase();
+    const open = match.index + match[0].length - 1;
+    const end = closingIndex(text, open);
+    const body = text.slice(open + 1, end - 1);
+    entryStart.lastIndex = end;
+
+    if (type === 'comment' || type === 'preamble') continue;
+    if (type === 'string') {
+      parseBibtexFields(body, strings).forEach((value, key) => strings.set(key, value));
+      continue;
+    }
+
+    const comma = body.indexOf(',');
+    const citationKey = comma === -1 ? undefined : body.slice(0, comma).trim() || undefined;
+    const fields = parseBibtexFields(comma === -1 ? body : body.slice(comma + 1), strings);
+    const get = (...names: string[]) => {
+      const name = names.find(n => fields.get(n)?.trim());
+      return name ? fromLatex(fields.get(name)!) : undefined;
+    };
+    // URLs and DOIs are taken verbatim; "~" and "--" are common in them
+    const raw = (name: string) => fields.get(name)?.replace(/\\([&%$#_~])/g, '$1').trim() || undefined;
+    const title = get('title');
+    if (!title) continue;
+
+    const doi = raw('doi')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+    entries.push({
+      title,
+      citationKey,
+      abstract: get('abstract'),
+      url: raw('url') || (doi ? `https://doi.org/${doi}` : undefined),
+      keywords: (get('keywords') || '').split(/[,;]/).map(k => k.trim()).filter(Boolean),
+      reference: {
+        kind: BIBTEX_KINDS[type] || (raw('url') && !get('journal', 'journaltitle') ? 'webpage' : 'misc'),
+        authors: splitBibtexNames(fields.get('author') || fields.get('editor') || '').map(bibtexName),
+        publishedAt: bibtexDate(fields),
+        publisher: get('publisher', 'institution', 'school', 'organization'),
+        containerTitle: get('journal', 'journaltitle', 'booktitle', 'howpublished'),
+        volume: get('volume'),
+        issue: get('number', 'issue'),
+        pages: get('pages')?.replace(/\s*[–—]\s*/, '-'),
+        doi,
+        accessedAt: get('urldate'),
+      },
+    });
+  }
+  return entries;
+};
+
+// --- RIS ---
+
+const RIS_KINDS: Record<string, ReferenceKind> = {
+  JOUR: 'article', JFULL: 'article', MGZN: 'article', NEWS: 'article', EJOUR: 'article',
+  BOOK: 'book', EBOOK: 'book', EDBOOK: 'book', CHAP: 'chapter', ECHAP: 'chapter',
+  CONF: 'conference', CPAPER: 'conference', RPRT: 'report', THES: 'thesis',
+  ELEC: 'webpage', WEB: 'webpage', BLOG: 'webpage', VIDEO: 'video', MPCT: 'video',
+};
+
+// "2021/05/04/other" -> "2021-05-04"; "2021///" -> "2021"
+const risDate = (value?: string) => {
+  const [year, month, day] = (value || '').split('/').map(p => p.trim());
+  if (!/^\d{4}$/.test(year)) return undefined;
+  if (!/^\d{1,2}$/.test(month || '')) return year;
+  return /^\d{1,2}$/.test(day || '') ? `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}` : `${year}-${month.padStart(2, '0')}`;
+};
+
+export const parseRIS = (text: string): ImportedEntry[] => {
+  const entries: ImportedEntry[] = [];
+  let tags: [string, string][] = [];
+
+  const finish = () => {
+    const all = (...names: string[]) => tags.filter(([tag]) => names.includes(tag)).map(([, value]) => value.trim()).filter(Boolean);
+    const first = (...names: string[]) => names.map(n => all(n)[0]).find(Boolean);
+    const title = first('TI', 'T1', 'CT', 'BT');
+    if (title) {
+      const doi = first('DO')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+      const [startPage, endPage] = [first('SP'), first('EP')];
+      const type = first('TY') || '';
+      entries.push({
+        title,
+        abstract: first('AB', 'N2'),
+        url: first('UR', 'L2') || (doi ? `https://doi.org/${doi}` : undefined),
+        keywords: all('KW'),
+        reference: {
+          kind: RIS_KINDS[type] || 'misc',
+          authors: all('AU', 'A1').map(toSortName),
+          publishedAt: risDate(first('DA')) || risDate(first('PY', 'Y1')),
+          publisher: first('PB'),
+          containerTitle: first('T2', 'JO', 'JF', 'JA', 'J2', type === 'CHAP' ? 'BT' : ''),
+          volume: first('VL'),
+          issue: first('IS'),
+          pages: startPage && endPage && !startPage.includes('-') ? `${startPage}-${endPage}` : startPage,
+          doi,
+          accessedAt: risDate(first('Y2')),
+        },
+      });
+    }
+    tags = [];
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const match = /^([A-Z][A-Z0-9])\s{1,2}-\s?(.*)$/.exec(line);
+    if (!match) {
+      // Wrapped long values (abstracts) continue on untagged lines
+      if (line.trim() && tags.length) tags[tags.length - 1][1] += ` ${line.trim()}`;
+      return;
+    }
+    const [, tag, value] = match;
+    if (tag === 'TY' && tags.length) finish();
+    if (tag === 'ER') finish();
+    else tags.push([tag, value]);
+  });
+  if (tags.length) finish();
+  return entries;
+};
+
+// --- SOURCES ---
+
+export const parseReferenceFile = (text: string, fileName: string): ImportedEntry[] => {
+  const isRis = /\.ris$/i.test(fileName) || (!/\.bib(tex)?$/i.test(fileName) && /^TY\s{1,2}-/m.test(text));
+  const entries = isRis ? parseRIS(text) : parseBibTeX(text);
+  if (entries.length === 0) throw new Error(`No references with titles were found in ${fileName}. Export BibTeX (.bib) or RIS (.ris) from your reference manager.`);
+  return entries;
+};
+
+// Entries without an abstract still need some text to be searchable
+const describeEntry = (entry: ImportedEntry) => [
+  entry.title,
+  entry.reference.authors.length ? `Authors: ${entry.reference.authors.join('; ')}` : '',
+  entry.reference.containerTitle ? `Published in: ${entry.reference.containerTitle}` : '',
+  entry.reference.publishedAt ? `Date: ${entry.reference.publishedAt}` : '',
+  entry.keywords.length ? `Keywords: ${entry.keywords.join(', ')}` : '',
+].filter(Boolean).join('\n');
+
+export const entryToSource = (entry: ImportedEntry, metadata: Record<string, any> = {}): Source => ({
+  id: crypto.randomUUID(),
+  type: 'copiedText',
+  title: entry.title,
+  content: entry.abstract ? `${entry.title}\n\n${entry.abstract}` : describeEntry(entry),
+  createdAt: Date.now(),
+  metadata: {
+    ...metadata,
+    ...(entry.url ? { originalUrl: entry.url } : {}),
+    ...(entry.abstract ? { abstract: entry.abstract } : {}),
+    ...(entry.keywords.length ? { keywords: entry.keywords } : {}),
+    ...(entry.citationKey ? { citationKey: entry.citationKey } : {}),
+    fullTextAvailable: false,
+  },
+  reference: entry.reference,
+});
+
+// Below this much text a fetched page is probably a landing or login page
+const MIN_FULL_TEXT_LENGTH = 1500;
+
+// Swaps the abstract for the full text at the entry's URL. Pages that yield no more text than
+// the abstract leave the source unchanged.
+export const fetchFullText = async (source: Source): Promise<Source> => {
+  if (!source.metadata?.originalUrl) return source;
+  const article = await fetchWebsiteArticle(source.metadata.originalUrl);
+  if (article.content.length <= Math.max(source.content.length, MIN_FULL_TEXT_LENGTH)) return source;
+  return {
+    ...source,
+    type: 'website',
+    content: article.content,
+    metadata: { ...article.metadata, ...source.metadata, fullTextAvailable: true },
+  };
+};
@@ -0,0 +1,22 @@
+import { Source } from '../types';
+import { fetchWebsiteArticle } from './ai';
+import { withNewContent } from './sources';
+
+// Re-fetching web sources. The source keeps its id (so citations and artifacts still point
+// at it) and its title; the content it replaces is pushed onto `versions`.
+
+export const canRefresh = (source: Source) => source.type === 'website' && !!source.metadata?.originalUrl;
+
+export interface RefreshResult {
+  source: Source;
+  changed: boolean;
+}
+
+export const refreshSource = async (source: Source): Promise<RefreshResult> => {
+  if (!canRefresh(source)) throw new Error("Only website sources can be refreshed.");
+  const article = await fetchWebsiteArticle(source.metadata!.originalUrl);
+  if (article.content === source.content) {
+    return { source: { ...source, refreshedAt: Date.now() }, changed: false };
+  }
+  return { source: withNewContent(source, article.content, { ...source.metadata, ...article.metadata }), changed: true };
+};
@@ -0,0 +1,269 @@
+import { Source } from '../types';
+
+// Local passage retrieval over Source.content. Sources are split into overlapping chunks
+// once (cached by content), ranked with BM25 and optionally blended with embeddings,
+// so prompts carry the most relevant passages instead of whole documents.
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Share of the final score given to embeddings when a provider is registered
+const EMBEDDING_WEIGHT = 0.5;
+
+export interface SourceChunk {
+  id: string;               // `${sourceId}#${index}`
+  sourceId: string;
+  sourceTitle: string;
+  index: number;
+  start: number;            // Character span in Source.content
+  end: number;
+  text: string;
+}
+
+export interface RetrievedPassage extends SourceChunk {
+  score: number;
+}
+
+export interface EmbeddingProvider {
+  id: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which',
+  'who', 'why', 'will', 'with', 'you', 'your', 'how', 'do', 'does', 'did', 'can', 'about',
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// --- CHUNKING ---
+
+// Prefer to end a chunk on a paragraph, then a sentence, then a word boundary.
+const findBreak = (content: string, start: number, limit: number) => {
+  if (limit >= content.length) return content.length;
+  const window = content.slice(start, limit);
+  const minBreak = Math.floor(window.length * 0.5);
+  for (const pattern of [/\n\s*\n/g, /[.!?]\s/g, /\s/g]) {
+    let last = -1;
+    for (const match of window.matchAll(pattern)) last = match.index! + match[0].length;
+    if (last >= minBreak) return start + last;
+  }
+  return limit;
+};
+
+export const chunkSource = (source: Source, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): SourceChunk[] => {
+  const content = source.content || '';
+  const chunks: SourceChunk[] = [];
+  let start = 0;
+  while (start < content.length) {
+    const end = findBreak(content, start, start + size);
+    const text = content.slice(start, end);
+    if (text.trim()) {
+      chunks.push({ id: `${source.id}#${chunks.length}`, sourceId: source.id, sourceTitle: source.title, index: chunks.length, start, end, text });
+    }
+    if (end >= content.length) break;
+    // Step back for overlap, but always make progress and restart on a word boundary
+    let next = Math.max(end - overlap, start + 1);
+    const space = content.indexOf(' ', next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+  return chunks;
+};
+
+// --- INDEX ---
+
+interface IndexedChunk {
+  chunk: SourceChunk;
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface IndexedSource {
+  signature: string;
+  chunks: IndexedChunk[];
+}
+
+const sourceIndex = new Map<string, IndexedSource>();
+
+// Hash of the full text so any edit or refresh re-chunks the source, even one that keeps its length
+const signatureOf = (source: Source) => {
+  const content = source.content || '';
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) hash = Math.imul(hash ^ content.charCodeAt(i), 0x01000193);
+  return `${source.title}:${content.length}:${hash >>> 0}`;
+};
+
+const indexSource = (source: Source): IndexedChunk[] => {
+  const signature = signatureOf(source);
+  const cached = sourceIndex.get(source.id);
+  if (cached && cached.signature === signature) return cached.chunks;
+
+  const chunks = chunkSource(source).map(chunk => {
+    const tokens = tokenize(chunk.text);
+    const terms = new Map<string, number>();
+    tokens.forEach(t => terms.set(t, (terms.get(t) || 0) + 1));
+    return { chunk, terms, length: tokens.length };
+  });
+  sourceIndex.set(source.id, { signature, chunks });
+  return chunks;
+};
+
+// Called at ingestion so the first question doesn't pay for chunking.
+export const indexSources = (sources: Source[]) => { sources.forEach(indexSource); };
+
+export const getSourceChunks = (source: Source): SourceChunk[] => indexSource(source).map(c => c.chunk);
+
+const bm25Scores = (indexed: IndexedChunk[], query: string): number[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || indexed.length === 0) return indexed.map(() => 0);
+
+  const avgLength = indexed.reduce((n, c) => n + c.length, 0) / indexed.length || 1;
+  const docFreq = new Map<string, number>();
+  queryTerms.forEach(term => docFreq.set(term, indexed.filter(c => c.terms.has(term)).length));
+
+  return indexed.map(({ terms, length }) => queryTerms.reduce((score, term) => {
+    const tf = terms.get(term) || 0;
+    if (!tf) return score;
+    const df = docFreq.get(term) || 0;
+    const idf = Math.log(1 + (indexed.length - df + 0.5) / (df + 0.5));
+    return score + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / avgLength));
+  }, 0));
+};
+
+// --- EMBEDDINGS (optional) ---
+
+let embeddingProvider: EmbeddingProvider | null = null;
+const embeddingCache = new Map<string, number[]>();
+
+export const setEmbeddingProvider = (provider: EmbeddingProvider | null) => {
+  embeddingProvider = provider;
+  embeddingCache.clear();
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) { dot += a[i] * b[i]; na += a[i] * a[i]; nb += b[i] * b[i]; }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+const embeddingScores = async (indexed: IndexedChunk[], query: string): Promise<number[] | null> => {
+  if (!embeddingProvider) return null;
+  const provider = embeddingProvider;
+  try {
+    const cacheKey = (c: SourceChunk) => `${provider.id}:${c.id}:${c.start}:${c.end}`;
+    const missing = indexed.filter(c => !embeddingCache.has(cacheKey(c.chunk)));
+    if (missing.length > 0) {
+      const vectors = await provider.embed(missing.map(c => c.chunk.text));
+      missing.forEach((c, i) => embeddingCache.set(cacheKey(c.chunk), vectors[i]));
+    }
+    const [queryVector] = await provider.embed([query]);
+    return indexed.map(c => cosine(queryVector, embeddingCache.get(cacheKey(c.chunk)) || []));
+  } catch (e) {
+    console.warn("Embedding provider failed, using BM25 only", e);
+    return null;
+  }
+};
+
+const normalize = (scores: number[]) => {
+  const max = scores.reduce((m, s) => Math.max(m, s), 0);
+  return max > 0 ? scores.map(s => s / max) : scores;
+};
+
+// --- RETRIEVAL ---
+
+export interface RetrieveOptions {
+  budget: number;           // Max characters of passage text
+  perSourceMinimum?: number; // Guarantee this many passages per source (breadth for summaries)
+}
+
+// Ranks every chunk of `sources` against `query` and returns the best passages that fit
+// the budget, in document order. When everything fits, every chunk is returned.
+export const retrievePassages = async (sources: Source[], query: string, { budget, perSourceMinimum = 0 }: RetrieveOptions): Promise<RetrievedPassage[]> => {
+  const indexed = sources.flatMap(indexSource);
+  const total = indexed.reduce((n, c) => n + c.chunk.text.length, 0);
+
+  let scores = normalize(bm25Scores(indexed, query));
+  const semantic = await embeddingScores(indexed, query);
+  if (semantic) scores = scores.map((s, i) => (1 - EMBEDDING_WEIGHT) * s + EMBEDDING_WEIGHT * semantic[i]);
+
+  const ranked: RetrievedPassage[] = indexed.map((c, i) => ({ ...c.chunk, score: scores[i] }));
+  let selected: RetrievedPassage[];
+
+  if (total <= budget) {
+    selected = ranked;
+  } else {
+    const byScore = [...ranked].sort((a, b) => b.score - a.score || a.index - b.index);
+    const picked = new Set<string>();
+    let used = 0;
+    const take = (p: RetrievedPassage) => {
+      if (picked.has(p.id) || used + p.text.length > budget) return;
+      picked.add(p.id);
+      used += p.text.length;
+    };
+    // Breadth first: the best passages of each source, then the best passages overall
+    for (let round = 0; round < perSourceMinimum; round++) {
+      sources.forEach(source => {
+        const next = byScore.find(p => p.sourceId === source.id && !picked.has(p.id));
+        if (next) take(next);
+      });
+    }
+    byScore.forEach(take);
+    selected = ranked.filter(p => picked.has(p.id));
+  }
+
+  const order = new Map(sources.map((s, i) => [s.id, i]));
+  return selected.sort((a, b) => (order.get(a.sourceId)! - order.get(b.sourceId)!) || a.start - b.start);
+};
+
+// Joins one source's passages, skipping overlap and marking gaps where text was left out.
+export const joinPassages = (passages: RetrievedPassage[]): string => {
+  let lastEnd = 0;
+  return passages.map(p => {
+    const text = p.start < lastEnd ? p.text.slice(lastEnd - p.start) : `${p.start > lastEnd ? '[...]\n' : ''}${p.text}`;
+    lastEnd = Math.max(lastEnd, p.end);
+    return text;
+  }).join('');
+};
+
+export const formatPassages = (passages: RetrievedPassage[]): string => {
+  const groups = new Map<string, RetrievedPassage[]>();
+  passages.forEach(p => groups.set(p.sourceId, [...(groups.get(p.sourceId) || []), p]));
+  return Array.from(groups.values())
+    .map(group => `SOURCE: ${group[0].sourceTitle}\nCONTENT:\n${joinPassages(group)}\n---`)
+    .join('\n');
+};
+
+export interface CitablePassage {
+  marker: number;           // 1-based, as printed in the prompt
+  sourceId: string;
+  sourceTitle: string;
+  start: number;
+  end: number;
+  text: string;
+  page?: number;            // For paged sources (PDFs), filled in by the caller
+}
+
+// Numbers passages for inline citation. Overlap with the previous passage of the same
+// source is trimmed so every marker points at a distinct span.
+export const numberPassages = (passages: RetrievedPassage[]): CitablePassage[] => {
+  const lastEnd = new Map<string, number>();
+  const numbered: CitablePassage[] = [];
+  passages.forEach(p => {
+    const start = Math.max(p.start, lastEnd.get(p.sourceId) ?? 0);
+    if (start >= p.end) return;
+    lastEnd.set(p.sourceId, p.end);
+    numbered.push({ marker: numbered.length + 1, sourceId: p.sourceId, sourceTitle: p.sourceTitle, start, end: p.end, text: p.text.slice(start - p.start) });
+  });
+  return numbered;
+};
+
+export const formatNumberedPassages = (passages: CitablePassage[]): string =>
+  passages.map(p => `[${p.marker}] SOURCE: ${p.sourceTitle}${p.page ? ` (page ${p.page})` : ''}\n${p.text.trim()}`).join('\n---\n');
@@ -0,0 +1,112 @@
+import { Notebook } from '../types';
+import { NotebookBundle, createNotebookBundle, parseBundle, restoreBundle, bundleToSnapshot } from './bundle';
+import { BLOB_REF, upgradeNotebook } from './storage';
+import { arrayBufferToBase64, base64ToUint8Array } from './audioUtils';
+
+// Read-only sharing. A shared notebook is a bundle with `manifest.readOnly` set, delivered
+// either as a file or gzip-compressed into the URL hash (#/shared/<payload>), so nothing
+// ever leaves the sender's browser except through the channel they choose.
+
+// Keep links comfortably below what browsers and chat apps will carry.
+const MAX_LINK_PAYLOAD = 100_000;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  arrayBufferToBase64(bytes.buffer as ArrayBuffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToUint8Array(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+};
+
+const gzip = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const gunzip = async (bytes: Uint8Array): Promise<string> => {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+export const createShareFile = async (notebookId: string): Promise<Blob> => {
+  const bundle = await createNotebookBundle(notebookId, true);
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+// Returns a link that embeds the snapshot, or null when the notebook is too large for a link.
+// Audio and source versions are left out of links (audio alone would blow the size budget); share files keep them.
+export const createShareLink = async (notebookId: string): Promise<string | null> => {
+  const bundle = await createNotebookBundle(notebookId, true);
+  const blobs = Object.fromEntries(Object.entries(bundle.blobs).filter(([key]) => !key.endsWith('/audio')));
+  const notebook: Notebook = {
+    ...bundle.notebook,
+    sources: bundle.notebook.sources.map(({ versions, ...source }) => source),
+    artifacts: bundle.notebook.artifacts.map(a =>
+      a.type === 'audioOverview' && a.content ? { ...a, content: { ...a.content, audioStored: false } } : a
+    ),
+  };
+
+  const payload = toBase64Url(await gzip(JSON.stringify({ ...bundle, notebook, blobs })));
+  if (payload.length > MAX_LINK_PAYLOAD) return null;
+  return `${window.location.origin}${window.location.pathname}#/shared/${payload}`;
+};
+
+export const decodeSharePayload = async (payload: string): Promise<NotebookBundle> => {
+  let text: string;
+  try {
+    text = await gunzip(fromBase64Url(payload));
+  } catch (e) {
+    throw new Error("This share link is damaged or incomplete.");
+  }
+  return parseBundle(text);
+};
+
+// Shared files opened from the dashboard are handed to the viewer route through here.
+let openedBundle: NotebookBundle | null = null;
+
+export const setOpenedSharedBundle = (bundle: NotebookBundle) => { openedBundle = bundle; };
+export const getOpenedSharedBundle = () => openedBundle;
+
+// Builds an in-memory notebook for the read-only viewer. Binary references become object URLs
+// (returned so the caller can revoke them); stored audio is exposed through `audioUrl`.
+export const materializeSharedNotebook = (bundle: NotebookBundle): { notebook: Notebook; objectUrls: string[] } => {
+  const snapshot = bundleToSnapshot(bundle);
+  const { blobs } = snapshot;
+  const { notebook } = upgradeNotebook(snapshot.notebook);
+  const objectUrls: string[] = [];
+  const urlFor = (key: string) => {
+    const blob = blobs[key];
+    if (!blob) return undefined;
+    const url = URL.createObjectURL(blob);
+    objectUrls.push(url);
+    return url;
+  };
+
+  const artifacts = notebook.artifacts.map(artifact => {
+    if (!artifact.content || typeof artifact.content !== 'object') return artifact;
+    const content = { ...artifact.content };
+    Object.keys(content).forEach(field => {
+      const value = content[field];
+      if (typeof value === 'string' && value.startsWith(BLOB_REF)) {
+        content[field] = urlFor(value.slice(BLOB_REF.length));
+      }
+    });
+    if (content.audioStored) {
+      content.audioUrl = urlFor(`${artifact.id}/audio`);
+      content.audioStored = false;
+    }
+    return { ...artifact, content };
+  });
+
+  return { notebook: { ...notebook, artifacts }, objectUrls };
+};
+
+// Copies a shared snapshot into the user's own notebooks under fresh ids.
+export const forkSharedBundle = async (bundle: NotebookBundle): Promise<string> => {
+  const forked: NotebookBundle = {
+    ...bundle,
+    manifest: { ...bundle.manifest, readOnly: false },
+    notebook: { ...bundle.notebook, title: `${bundle.notebook.title} (Fork)`, createdAt: Date.now() },
+  };
+  return restoreBundle(forked, true);
+};
@@ -0,0 +1,91 @@
+import { Notebook, Source, Artifact, AudioOverviewDialogue, ChatCitation } from '../types';
+
+// Sources the user has left switched on. New sources are active until excluded.
+export const isSourceActive = (notebook: Notebook, sourceId: string) =>
+  !(notebook.excludedSourceIds || []).includes(sourceId);
+
+// Page number for a character offset, for sources that record page spans (PDFs).
+export const pageAt = (source: Source, offset: number): number | undefined => {
+  const pages: { page: number; start: number; end: number }[] = source.metadata?.pages || [];
+  return pages.find(p => offset >= p.start && offset < p.end)?.page
+    ?? [...pages].reverse().find(p => offset >= p.start)?.page;
+};
+
+export const getActiveSources = (notebook: Notebook): Source[] =>
+  (notebook.sources || []).filter(s => isSourceActive(notebook, s.id));
+
+// --- VERSIONS ---
+
+// Older versions kept per source; the oldest is dropped beyond this
+export const MAX_SOURCE_VERSIONS = 5;
+
+export const sourceVersion = (source: Source) => source.version ?? 1;
+
+// New current text for a source; the text it replaces is pushed onto `versions`.
+export const withNewContent = (source: Source, content: string, metadata = source.metadata): Source => {
+  const previous = { version: sourceVersion(source), title: source.title, content: source.content, fetchedAt: source.refreshedAt ?? source.createdAt };
+  return {
+    ...source,
+    content,
+    metadata,
+    version: previous.version + 1,
+    refreshedAt: Date.now(),
+    versions: [previous, ...(source.versions || [])].slice(0, MAX_SOURCE_VERSIONS),
+  };
+};
+
+// A chat citation's offsets only hold for the source version it was made against.
+export const isCitationStale = (citation: ChatCitation, source: Source) =>
+  (citation.sourceVersion ?? 1) !== sourceVersion(source);
+
+export const snapshotSourceVersions = (sources: Source[]): Record<string, number> =>
+  Object.fromEntries(sources.map(s => [s.id, sourceVersion(s)]));
+
+// Sources that changed since the artifact was generated. Artifacts from before version
+// tracking have no snapshot and are never reported stale.
+export const staleSourcesFor = (artifact: Artifact, sources: Source[]): Source[] =>
+  sources.filter(s => artifact.sourceVersions?.[s.id] !== undefined && sourceVersion(s) > artifact.sourceVersions[s.id]);
+
+// --- CITED PASSAGES ---
+
+// A span of Source.content that chat answers or audio overviews point at
+export interface CitedPassage {
+  start: number;
+  end: number;
+  labels: string[];           // Where it was cited, e.g. "Chat • Thread title [2]"
+}
+
+// Span of an exact quote in the source, e.g. an audio fact check's evidence snippet.
+export const locateSnippet = (source: Source, snippet?: string): { start: number; end: number } | undefined => {
+  const start = snippet?.trim() ? source.content.indexOf(snippet.trim()) : -1;
+  return start >= 0 ? { start, end: start + snippet!.trim().length } : undefined;
+};
+
+// Passage for an audio turn's citation: its note when quoted verbatim, otherwise the first
+// fact check the dialogue recorded against that source.
+export const audioCitationSpan = (dialogue: AudioOverviewDialogue, source: Source, note?: string) =>
+  locateSnippet(source, note)
+    ?? dialogue.factChecks.filter(fc => fc.sourceId === source.id).map(fc => locateSnippet(source, fc.evidenceSnippet)).find(Boolean);
+
+// Every passage of a source cited in chat threads or saved audio overviews, in document order.
+// Spans cited more than once are merged; chat citations made against an older version are dropped.
+export const citedPassages = (notebook: Notebook, source: Source): CitedPassage[] => {
+  const passages = new Map<string, CitedPassage>();
+  const add = (span: { start: number; end: number } | undefined, label: string) => {
+    if (!span || span.end <= span.start || span.end > source.content.length) return;
+    const key = `${span.start}:${span.end}`;
+    const existing = passages.get(key);
+    if (existing) { if (!existing.labels.includes(label)) existing.labels.push(label); }
+    else passages.set(key, { start: span.start, end: span.end, labels: [label] });
+  };
+
+  (notebook.chatThreads || []).forEach(thread => thread.messages.forEach(message =>
+    (message.citations || []).filter(c => c.sourceId === source.id && !isCitationStale(c, source)).forEach(c => add(c, `Chat • ${thread.title} [${c.marker}]`))
+  ));
+  (notebook.artifacts || []).filter(a => a.type === 'audioOverview' && a.status === 'completed').forEach(artifact => {
+    const dialogue: AudioOverviewDialogue | undefined = artifact.content;
+    (dialogue?.factChecks || []).filter(fc => fc.sourceId === source.id).forEach(fc => add(locateSnippet(source, fc.evidenceSnippet), `Audio • ${artifact.title}`));
+  });
+
+  return [...passages.values()].sort((a, b) => a.start - b.start || a.end - b.end);
+};
@@ -1,47 +1,575 @@
+import { Notebook, Source, Artifact, AudioOverviewDialogue, ScoutMission } from '../types';
+import { openDb, STORES, requestToPromise, transactionDone, ownerKeyRange } from './db';
+import { base64ToUint8Array } from './audioUtils';
+import { AUDIO_HOSTS } from '../constants';
 
-import { Notebook, Source, Artifact } from '../types';
+// Pre-IndexedDB storage: every notebook serialized into one localStorage blob.
+const LEGACY_STORAGE_KEY = 'neon_notebook_data_v1';
 
-const STORAGE_KEY = 'neon_notebook_data_v1';
+// Artifact content fields holding base64 data URLs (infographics, cover art).
+// These are moved into the blobs store and replaced by a reference on disk.
+const BINARY_FIELDS = ['imageUrl', 'coverUrl'];
+const BLOB_REF_PREFIX = 'nebula-blob:';
 
-export const getNotebooks = (): Notebook[] => {
-  const data = localStorage.getItem(STORAGE_KEY);
-  return data ? JSON.parse(data) : [];
+// --- SCHEMA VERSIONING ---
+// Bump CURRENT_SCHEMA_VERSION and register a step in MIGRATIONS whenever the persisted
+// Notebook/Artifact shape changes. Unversioned data predates versioning and counts as 1.
+export const CURRENT_SCHEMA_VERSION = 5;
+
+interface Migration {
+  description: string;
+  migrate: (notebook: any) => any;
+}
+
+const LEGACY_SPEAKERS: Record<string, 'Nova' | 'Atlas'> = { nova: 'Nova', jane: 'Nova', atlas: 'Atlas', joe: 'Atlas' };
+
+// Old job-based overviews stored a flat "Speaker: text" script instead of dialogue turns.
+const scriptToDialogue = (artifact: Artifact): AudioOverviewDialogue => {
+  const content = artifact.content || {};
+  const turns: AudioOverviewDialogue['turns'] = [];
+
+  String(content.script || '').split('\n').forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const match = trimmed.match(/^(\w+):\s*(.*)$/);
+    const speaker = match ? LEGACY_SPEAKERS[match[1].toLowerCase()] : undefined;
+    if (speaker) {
+      turns.push({ speaker, text: match![2], pauseMsAfter: 400, citations: [] });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].text += ` ${trimmed}`;
+    } else {
+      turns.push({ speaker: 'Nova', text: trimmed, pauseMsAfter: 400, citations: [] });
+    }
+  });
+
+  return {
+    id: artifact.id,
+    title: content.title || artifact.title,
+    topic: content.topic || '',
+    durationHint: 'medium',
+    createdAt: artifact.createdAt,
+    audioUrl: content.audioUrl,
+    coverUrl: content.coverUrl,
+    hosts: AUDIO_HOSTS,
+    coldOpen: '',
+    turns,
+    factChecks: [],
+    warnings: ['Migrated from a legacy audio overview; citations are unavailable.']
+  };
+};
+
+// MIGRATIONS[n] upgrades a notebook from version n to n + 1. Steps must not mutate their input.
+const MIGRATIONS: Record<number, Migration> = {
+  1: {
+    description: 'Fill in missing collections and timestamps',
+    migrate: (nb) => ({
+      ...nb,
+      description: nb.description ?? '',
+      sources: Array.isArray(nb.sources) ? nb.sources : [],
+      artifacts: Array.isArray(nb.artifacts) ? nb.artifacts : [],
+      createdAt: nb.createdAt ?? Date.now(),
+      updatedAt: nb.updatedAt ?? nb.createdAt ?? Date.now(),
+    }),
+  },
+  2: {
+    description: 'Convert script-based audio overviews into dialogue turns',
+    migrate: (nb) => ({
+      ...nb,
+      artifacts: nb.artifacts.map((a: Artifact) =>
+        a.type === 'audioOverview' && a.content && !Array.isArray(a.content.turns) && typeof a.content.script === 'string'
+          ? { ...a, content: scriptToDialogue(a) }
+          : a
+      ),
+    }),
+  },
+  3: {
+    description: 'Add persistent chat threads',
+    migrate: (nb) => ({
+      ...nb,
+      chatThreads: Array.isArray(nb.chatThreads) ? nb.chatThreads : [],
+    }),
+  },
+  4: {
+    description: 'Add notes',
+    migrate: (nb) => ({
+      ...nb,
+      notes: Array.isArray(nb.notes) ? nb.notes : [],
+    }),
+  },
+};
+
+export interface MigrationReport {
+  notebookId: string;
+  title: string;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  error?: string;
+}
+
+const migrationReports: MigrationReport[] = [];
+
+// Returns (and clears) the reports collected since the last call, for surfacing in the UI.
+export const consumeMigrationReports = (): MigrationReport[] => migrationReports.splice(0);
+
+// Applies pending migrations step by step. On failure the notebook is returned at the last
+// version that migrated cleanly, so it stays usable and the remaining steps can be retried.
+// The result always carries that version explicitly (v1 for notebooks saved before versioning).
+export const upgradeNotebook = (notebook: Notebook): { notebook: Notebook; report?: MigrationReport } => {
+  const fromVersion = notebook.schemaVersion ?? 1;
+  if (fromVersion === CURRENT_SCHEMA_VERSION) return { notebook };
+
+  const report: MigrationReport = {
+    notebookId: notebook.id,
+    title: notebook.title,
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+  };
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    report.error = `Saved by a newer version of the app (schema v${fromVersion}); loaded without changes.`;
+    return { notebook, report };
+  }
+
+  let current: Notebook = { ...notebook, schemaVersion: fromVersion };
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    try {
+      if (!step) throw new Error(`No migration registered from v${version}`);
+      current = { ...step.migrate(current), schemaVersion: version + 1 };
+      report.applied.push(step.description);
+      report.toVersion = version + 1;
+    } catch (e: any) {
+      console.error(`Migration v${version} -> v${version + 1} failed for notebook ${notebook.id}`, e);
+      report.error = e.message || 'Unknown migration error';
+      break;
+    }
+  }
+
+  return { notebook: current, report };
+};
+
+type NotebookRecord = Omit<Notebook, 'sources' | 'artifacts'> & {
+  sourceIds: string[];
+  artifactIds: string[];
+};
+type SourceRecord = Source & { notebookId: string };
+type ArtifactRecord = Artifact & { notebookId: string };
+
+// Last data URL written/read per blob key, so unchanged images are not rewritten on every save.
+const knownBlobs = new Map<string, string>();
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  return new Blob([base64ToUint8Array(data)], { type: mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
 };
 
-export const saveNotebook = (notebook: Notebook): void => {
-  const notebooks = getNotebooks();
-  const index = notebooks.findIndex((n) => n.id === notebook.id);
-  if (index >= 0) {
-    notebooks[index] = notebook;
-  } else {
-    notebooks.push(notebook);
+// Object URLs only live as long as the page; anything persisted with one is already dead.
+const dropSessionUrls = (content: any) => {
+  if (typeof content.audioUrl === 'string' && content.audioUrl.startsWith('blob:')) {
+    delete content.audioUrl;
   }
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(notebooks));
 };
 
-export const updateNotebook = (notebook: Notebook): void => {
-    saveNotebook(notebook);
+const externalizeArtifact = (artifact: Artifact, notebookId: string) => {
+  const blobs: Array<{ key: string; blob: Blob; dataUrl: string }> = [];
+  let content = artifact.content;
+
+  if (content && typeof content === 'object') {
+    content = { ...content };
+    dropSessionUrls(content);
+    for (const field of BINARY_FIELDS) {
+      const value = content[field];
+      if (typeof value === 'string' && value.startsWith('data:')) {
+        const key = `${artifact.id}/${field}`;
+        if (knownBlobs.get(key) !== value) {
+          blobs.push({ key, blob: dataUrlToBlob(value), dataUrl: value });
+        }
+        content[field] = `${BLOB_REF_PREFIX}${key}`;
+      }
+    }
+  }
+
+  const record: ArtifactRecord = { ...artifact, content, notebookId };
+  return { record, blobs };
+};
+
+const blobRefsOf = (record: ArtifactRecord): Array<[string, string]> => {
+  const content = record.content;
+  if (!content || typeof content !== 'object') return [];
+  return BINARY_FIELDS
+    .filter(field => typeof content[field] === 'string' && content[field].startsWith(BLOB_REF_PREFIX))
+    .map(field => [field, content[field].slice(BLOB_REF_PREFIX.length)]);
+};
+
+// Strips the notebookId and swaps blob references back to data URLs.
+// Audio is not inlined here; it is loaded on demand via loadArtifactAudioUrl.
+// All blobs are fetched in one transaction before any FileReader work, since
+// IndexedDB transactions auto-commit across non-IDB awaits.
+const hydrateArtifacts = async (records: ArtifactRecord[]): Promise<Artifact[]> => {
+  const keys = records.flatMap(r => blobRefsOf(r).map(([, key]) => key));
+  const blobs = new Map<string, Blob>();
+
+  if (keys.length > 0) {
+    const db = await openDb();
+    const blobStore = db.transaction(STORES.blobs, 'readonly').objectStore(STORES.blobs);
+    const results = await Promise.all(keys.map(key => requestToPromise<Blob | undefined>(blobStore.get(key))));
+    keys.forEach((key, i) => { if (results[i]) blobs.set(key, results[i]!); });
+  }
+
+  return Promise.all(records.map(async ({ notebookId, ...artifact }) => {
+    if (!artifact.content || typeof artifact.content !== 'object') return artifact;
+
+    const content = { ...artifact.content };
+    dropSessionUrls(content);
+    const refs = blobRefsOf({ ...artifact, content, notebookId });
+    for (const [field, key] of refs) {
+      const blob = blobs.get(key);
+      if (blob) {
+        const dataUrl = await blobToDataUrl(blob);
+        knownBlobs.set(key, dataUrl);
+        content[field] = dataUrl;
+      } else {
+        delete content[field];
+      }
+    }
+    return { ...artifact, content };
+  }));
+};
+
+const byIds = <T extends { id: string }>(items: T[], ids: string[]): T[] => {
+  const lookup = new Map(items.map(item => [item.id, item]));
+  const ordered = ids.map(id => lookup.get(id)).filter((item): item is T => !!item);
+  // Keep anything that was written without being listed (should not happen, but never drop data)
+  const listed = new Set(ids);
+  return [...ordered, ...items.filter(item => !listed.has(item.id))];
+};
+
+const assembleNotebook = (record: NotebookRecord, sources: Source[], artifacts: Artifact[]): Notebook => {
+  const { sourceIds, artifactIds, ...rest } = record;
+  return {
+    ...rest,
+    sources: byIds(sources, sourceIds || []),
+    artifacts: byIds(artifacts, artifactIds || []),
+  };
+};
+
+const stripNotebookId = ({ notebookId, ...source }: SourceRecord): Source => source;
+
+// Writes the notebook and its children in a single transaction, removing children that
+// are no longer referenced (and their blobs).
+const writeNotebook = async (notebook: Notebook): Promise<void> => {
+  const db = await openDb();
+  const { sources = [], artifacts = [], ...rest } = notebook;
+  const prepared = artifacts.map(a => externalizeArtifact(a, notebook.id));
+
+  const tx = db.transaction([STORES.notebooks, STORES.sources, STORES.artifacts, STORES.blobs], 'readwrite');
+  const done = transactionDone(tx);
+  const notebookStore = tx.objectStore(STORES.notebooks);
+  const sourceStore = tx.objectStore(STORES.sources);
+  const artifactStore = tx.objectStore(STORES.artifacts);
+  const blobStore = tx.objectStore(STORES.blobs);
+
+  const record: NotebookRecord = {
+    ...rest,
+    sourceIds: sources.map(s => s.id),
+    artifactIds: artifacts.map(a => a.id),
+  };
+  notebookStore.put(record);
+
+  sources.forEach(s => sourceStore.put({ ...s, notebookId: notebook.id } as SourceRecord));
+  prepared.forEach(({ record: artifactRecord, blobs }) => {
+    artifactStore.put(artifactRecord);
+    blobs.forEach(({ key, blob }) => blobStore.put(blob, key));
+  });
+
+  const [existingSourceIds, existingArtifactIds] = await Promise.all([
+    requestToPromise(sourceStore.index('notebookId').getAllKeys(notebook.id)),
+    requestToPromise(artifactStore.index('notebookId').getAllKeys(notebook.id)),
+  ]);
+
+  const keepSources = new Set(record.sourceIds);
+  existingSourceIds.forEach(key => {
+    if (!keepSources.has(key as string)) sourceStore.delete(key);
+  });
+
+  const keepArtifacts = new Set(record.artifactIds);
+  existingArtifactIds.forEach(key => {
+    if (!keepArtifacts.has(key as string)) {
+      artifactStore.delete(key);
+      blobStore.delete(ownerKeyRange(key as string));
+    }
+  });
+
+  await done;
+  prepared.forEach(({ blobs }) => blobs.forEach(({ key, dataUrl }) => knownBlobs.set(key, dataUrl)));
+};
+
+let migrationPromise: Promise<void> | null = null;
+
+// One-time move of the legacy localStorage blob into IndexedDB.
+const ensureMigrated = (): Promise<void> => {
+  if (migrationPromise) return migrationPromise;
+
+  migrationPromise = (async () => {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!data) return;
+
+    let legacy: Notebook[] = [];
+    try {
+      legacy = JSON.parse(data);
+    } catch (e) {
+      console.error("Legacy notebook data is corrupt, skipping migration", e);
+      return;
+    }
+
+    for (const notebook of legacy) {
+      const { notebook: upgraded, report } = upgradeNotebook(notebook);
+      if (report) migrationReports.push(report);
+      await writeNotebook(upgraded);
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.info(`Migrated ${legacy.length} notebook(s) from localStorage to IndexedDB.`);
+  })().catch((e) => {
+    migrationPromise = null;
+    throw e;
+  });
+
+  return migrationPromise;
+};
+
+// Upgrades a freshly loaded notebook and writes it back once it migrated cleanly.
+const applyMigrations = async (notebook: Notebook): Promise<Notebook> => {
+  const { notebook: upgraded, report } = upgradeNotebook(notebook);
+  if (!report) return upgraded;
+
+  migrationReports.push(report);
+  if (!report.error) await writeNotebook(upgraded);
+  return upgraded;
 };
 
-export const createNotebook = (title: string): Notebook => {
+export const getNotebooks = async (): Promise<Notebook[]> => {
+  await ensureMigrated();
+  const db = await openDb();
+  const tx = db.transaction([STORES.notebooks, STORES.sources, STORES.artifacts], 'readonly');
+  const [records, sourceRecords, artifactRecords] = await Promise.all([
+    requestToPromise<NotebookRecord[]>(tx.objectStore(STORES.notebooks).getAll()),
+    requestToPromise<SourceRecord[]>(tx.objectStore(STORES.sources).getAll()),
+    requestToPromise<ArtifactRecord[]>(tx.objectStore(STORES.artifacts).getAll()),
+  ]);
+
+  const artifacts = await hydrateArtifacts(artifactRecords);
+  const artifactNotebook = new Map(artifactRecords.map(a => [a.id, a.notebookId]));
+
+  const notebooks = records
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(record => assembleNotebook(
+      record,
+      sourceRecords.filter(s => s.notebookId === record.id).map(stripNotebookId),
+      artifacts.filter(a => artifactNotebook.get(a.id) === record.id)
+    ));
+  return Promise.all(notebooks.map(applyMigrations));
+};
+
+const readNotebookRecords = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.notebooks, STORES.sources, STORES.artifacts], 'readonly');
+  const [record, sourceRecords, artifactRecords] = await Promise.all([
+    requestToPromise<NotebookRecord | undefined>(tx.objectStore(STORES.notebooks).get(id)),
+    requestToPromise<SourceRecord[]>(tx.objectStore(STORES.sources).index('notebookId').getAll(id)),
+    requestToPromise<ArtifactRecord[]>(tx.objectStore(STORES.artifacts).index('notebookId').getAll(id)),
+  ]);
+  return { record, sourceRecords, artifactRecords };
+};
+
+export const getNotebookById = async (id: string): Promise<Notebook | undefined> => {
+  await ensureMigrated();
+  const { record, sourceRecords, artifactRecords } = await readNotebookRecords(id);
+  if (!record) return undefined;
+
+  const artifacts = await hydrateArtifacts(artifactRecords);
+  return applyMigrations(assembleNotebook(record, sourceRecords.map(stripNotebookId), artifacts));
+};
+
+export const saveNotebook = async (notebook: Notebook): Promise<void> => {
+  await ensureMigrated();
+  await writeNotebook(notebook);
+};
+
+export const updateNotebook = (notebook: Notebook): Promise<void> => {
+    return saveNotebook(notebook);
+};
+
+export const createNotebook = async (title: string): Promise<Notebook> => {
   const newNotebook: Notebook = {
     id: crypto.randomUUID(),
     title,
     description: 'New research project',
     sources: [],
     artifacts: [],
+    chatThreads: [],
+    notes: [],
     createdAt: Date.now(),
     updatedAt: Date.now(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
   };
-  saveNotebook(newNotebook);
+  await saveNotebook(newNotebook);
   return newNotebook;
 };
 
-export const deleteNotebook = (id: string): void => {
-  const notebooks = getNotebooks().filter((n) => n.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(notebooks));
+export const deleteNotebook = async (id: string): Promise<void> => {
+  await ensureMigrated();
+  const db = await openDb();
+  const tx = db.transaction([STORES.notebooks, STORES.sources, STORES.artifacts, STORES.blobs, STORES.scoutMissions], 'readwrite');
+  const done = transactionDone(tx);
+  const sourceStore = tx.objectStore(STORES.sources);
+  const artifactStore = tx.objectStore(STORES.artifacts);
+  const blobStore = tx.objectStore(STORES.blobs);
+  const missionStore = tx.objectStore(STORES.scoutMissions);
+
+  tx.objectStore(STORES.notebooks).delete(id);
+  blobStore.delete(ownerKeyRange(id));
+
+  const [sourceIds, artifactIds, missionIds] = await Promise.all([
+    requestToPromise(sourceStore.index('notebookId').getAllKeys(id)),
+    requestToPromise(artifactStore.index('notebookId').getAllKeys(id)),
+    requestToPromise(missionStore.index('notebookId').getAllKeys(id)),
+  ]);
+  sourceIds.forEach(key => sourceStore.delete(key));
+  artifactIds.forEach(key => {
+    artifactStore.delete(key);
+    blobStore.delete(ownerKeyRange(key as string));
+  });
+  missionIds.forEach(key => missionStore.delete(key));
+
+  await done;
 };
 
-export const getNotebookById = (id: string): Notebook | undefined => {
-  return getNotebooks().find((n) => n.id === id);
+// --- SCOUT MISSIONS ---
+// Missions are kept with their fetched candidates until added or discarded, so a reload
+// or closed tab does not lose a run that was waiting for review or could be resumed.
+
+export const getScoutMissions = async (): Promise<ScoutMission[]> => {
+  const db = await openDb();
+  const store = db.transaction(STORES.scoutMissions, 'readonly').objectStore(STORES.scoutMissions);
+  const missions = await requestToPromise<ScoutMission[]>(store.getAll());
+  return missions.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+export const saveScoutMission = async (mission: ScoutMission): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.scoutMissions, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(STORES.scoutMissions).put(mission);
+  await done;
+};
+
+export const deleteScoutMission = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.scoutMissions, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(STORES.scoutMissions).delete(id);
+  await done;
+};
+
+// --- ARTIFACT AUDIO ---
+// Synthesized WAV audio is kept in the blobs store under "<artifactId>/audio" and removed
+// together with the artifact by writeNotebook/deleteNotebook.
+
+const audioKey = (artifactId: string) => `${artifactId}/audio`;
+
+export const saveArtifactAudio = async (artifactId: string, audio: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.blobs, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(STORES.blobs).put(audio, audioKey(artifactId));
+  await done;
+};
+
+// Returns a fresh object URL for the stored audio; callers are responsible for revoking it.
+export const loadArtifactAudioUrl = async (artifactId: string): Promise<string | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(STORES.blobs, 'readonly').objectStore(STORES.blobs);
+  const blob = await requestToPromise<Blob | undefined>(store.get(audioKey(artifactId)));
+  return blob ? URL.createObjectURL(blob) : undefined;
+};
+
+// --- SNAPSHOTS (export / import) ---
+// A snapshot is the notebook in its persisted form: binary artifact fields are
+// "nebula-blob:<key>" references and every referenced or stored blob is listed in `blobs`.
+
+export interface NotebookSnapshot {
+  notebook: Notebook;
+  blobs: Record<string, Blob>;
+}
+
+export const BLOB_REF = BLOB_REF_PREFIX;
+
+export const exportNotebookSnapshot = async (id: string): Promise<NotebookSnapshot | undefined> => {
+  // Loading through getNotebookById first brings the stored copy up to the current schema
+  if (!(await getNotebookById(id))) return undefined;
+
+  const { record, sourceRecords, artifactRecords } = await readNotebookRecords(id);
+  if (!record) return undefined;
+
+  const db = await openDb();
+  const blobStore = db.transaction(STORES.blobs, 'readonly').objectStore(STORES.blobs);
+  const owners = [id, ...artifactRecords.map(a => a.id)];
+  const entries = await Promise.all(owners.map(async owner => {
+    const range = ownerKeyRange(owner);
+    const [keys, values] = await Promise.all([
+      requestToPromise(blobStore.getAllKeys(range)),
+      requestToPromise<Blob[]>(blobStore.getAll(range)),
+    ]);
+    return keys.map((key, i) => [key as string, values[i]] as const);
+  }));
+
+  const artifacts = artifactRecords.map(({ notebookId, ...artifact }) => {
+    if (!artifact.content || typeof artifact.content !== 'object') return artifact;
+    const content = { ...artifact.content };
+    dropSessionUrls(content);
+    return { ...artifact, content };
+  });
+
+  return {
+    notebook: assembleNotebook(record, sourceRecords.map(stripNotebookId), artifacts),
+    blobs: Object.fromEntries(entries.flat()),
+  };
+};
+
+// Ids among the given ones that are already used by stored notebooks, sources or artifacts.
+export const findExistingIds = async (ids: { notebooks: string[]; sources: string[]; artifacts: string[] }): Promise<Set<string>> => {
+  await ensureMigrated();
+  const db = await openDb();
+  const tx = db.transaction([STORES.notebooks, STORES.sources, STORES.artifacts], 'readonly');
+  const lookups = [
+    ...ids.notebooks.map(id => [STORES.notebooks, id] as const),
+    ...ids.sources.map(id => [STORES.sources, id] as const),
+    ...ids.artifacts.map(id => [STORES.artifacts, id] as const),
+  ];
+  const found = await Promise.all(lookups.map(([store, id]) => requestToPromise(tx.objectStore(store).getKey(id))));
+  return new Set(lookups.filter((_, i) => found[i] !== undefined).map(([, id]) => id));
+};
+
+export const importNotebookSnapshot = async ({ notebook, blobs }: NotebookSnapshot): Promise<void> => {
+  await ensureMigrated();
+  const db = await openDb();
+  const tx = db.transaction(STORES.blobs, 'readwrite');
+  const done = transactionDone(tx);
+  const blobStore = tx.objectStore(STORES.blobs);
+  Object.entries(blobs).forEach(([key, blob]) => blobStore.put(blob, key));
+  await done;
+
+  await writeNotebook(notebook);
 };
@@ -0,0 +1,169 @@
+import { Source } from '../types';
+import { fetchViaProxy } from './proxy';
+
+// YouTube transcripts from caption files (SRT, WebVTT, YouTube timedtext XML), either
+// attached by the user or fetched through the proxy. Transcripts are stored as
+// "[mm:ss] text" paragraphs with their time spans in Source.metadata.segments.
+
+// Start a new transcript paragraph after this many seconds
+const SEGMENT_SECONDS = 30;
+
+export interface CaptionCue {
+  start: number;            // Seconds
+  text: string;
+}
+
+export interface TranscriptSegment {
+  time: number;             // Seconds into the video
+  start: number;            // Character span in Source.content
+  end: number;
+}
+
+export const CAPTION_ACCEPT = '.srt,.vtt,.xml';
+
+export const parseVideoId = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.replace(/^(www\.|m\.|music\.)/, '');
+    if (host === 'youtu.be') return parsed.pathname.slice(1).split('/')[0] || null;
+    if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+      if (parsed.searchParams.get('v')) return parsed.searchParams.get('v');
+      const match = parsed.pathname.match(/^\/(?:embed|shorts|live|v)\/([\w-]{6,})/);
+      return match ? match[1] : null;
+    }
+  } catch (e) { /* not a URL */ }
+  return null;
+};
+
+export const formatTimestamp = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${rest}` : `${m}:${rest}`;
+};
+
+export const videoLinkAt = (videoId: string, seconds: number) =>
+  `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+
+// --- CAPTION PARSING ---
+
+const decodeEntities = (text: string) =>
+  new DOMParser().parseFromString(`<!doctype html><body>${text}`, 'text/html').body.textContent || '';
+
+const cleanCueText = (text: string) =>
+  decodeEntities(text.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+const parseClock = (clock: string): number => {
+  const parts = clock.trim().replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// SRT and WebVTT share the "start --> end" cue layout
+const parseTimedBlocks = (text: string): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  text.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n');
+    const timing = lines.findIndex(l => l.includes('-->'));
+    if (timing === -1) return;
+    const cueText = cleanCueText(lines.slice(timing + 1).join(' '));
+    if (cueText) cues.push({ start: parseClock(lines[timing].split('-->')[0]), text: cueText });
+  });
+  return cues;
+};
+
+// Both the legacy <text start dur> format and srv3 <p t d> (milliseconds)
+const parseTimedText = (xml: string): CaptionCue[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const legacy = Array.from(doc.getElementsByTagName('text')).map(el => ({
+    start: Number(el.getAttribute('start') || 0),
+    text: cleanCueText(el.textContent || ''),
+  }));
+  const srv3 = Array.from(doc.getElementsByTagName('p')).map(el => ({
+    start: Number(el.getAttribute('t') || 0) / 1000,
+    text: cleanCueText(el.textContent || ''),
+  }));
+  return (legacy.length ? legacy : srv3).filter(c => c.text);
+};
+
+export const parseCaptions = (text: string): CaptionCue[] => {
+  const trimmed = text.trim();
+  const cues = trimmed.startsWith('<') ? parseTimedText(trimmed) : parseTimedBlocks(trimmed);
+  // Auto-generated VTT repeats rolling lines; drop exact repeats
+  return cues.filter((cue, i) => i === 0 || cue.text !== cues[i - 1].text);
+};
+
+export const cuesToTranscript = (cues: CaptionCue[]): { content: string; segments: TranscriptSegment[] } => {
+  const segments: TranscriptSegment[] = [];
+  let content = '';
+  let paragraph: string[] = [];
+  let paragraphStart = 0;
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    if (content) content += '\n\n';
+    const line = `[${formatTimestamp(paragraphStart)}] ${paragraph.join(' ')}`;
+    segments.push({ time: paragraphStart, start: content.length, end: content.length + line.length });
+    content += line;
+    paragraph = [];
+  };
+
+  cues.forEach(cue => {
+    if (paragraph.length > 0 && cue.start - paragraphStart >= SEGMENT_SECONDS) flush();
+    if (paragraph.length === 0) paragraphStart = cue.start;
+    paragraph.push(cue.text);
+  });
+  flush();
+  return { content, segments };
+};
+
+// --- FETCHING ---
+
+// Pulls a JSON array out of the watch page by bracket matching (track names can nest arrays)
+const extractJsonArray = (html: string, key: string): any[] | null => {
+  const at = html.indexOf(`"${key}":`);
+  if (at === -1) return null;
+  const start = html.indexOf('[', at);
+  let depth = 0, inString = false, escape = false;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (escape) { escape = false; continue; }
+    if (char === '\\') { escape = true; continue; }
+    if (char === '"') inString = !inString;
+    if (inString) continue;
+    if (char === '[') depth++;
+    if (char === ']' && --depth === 0) {
+      try { return JSON.parse(html.slice(start, i + 1)); } catch (e) { return null; }
+    }
+  }
+  return null;
+};
+
+// Title and channel from YouTube's own oEmbed endpoint, fetched through the proxy like captions
+export const fetchYouTubeDetails = async (videoId: string): Promise<{ title?: string; channel?: string }> => {
+  const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+  const json = JSON.parse(await fetchViaProxy(`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(watchUrl)}`));
+  return { title: json.title || undefined, channel: json.author_name || undefined };
+};
+
+// Finds the video's caption tracks on its watch page and downloads the best English one.
+export const fetchYouTubeCaptions = async (videoId: string): Promise<string> => {
+  const fetchOrHint = (url: string) => fetchViaProxy(url).catch((e: Error) => {
+    throw new Error(`${e.message} Or attach a caption file instead.`);
+  });
+
+  const page = await fetchOrHint(`https://www.youtube.com/watch?v=${videoId}&hl=en`);
+
+  const tracks = extractJsonArray(page, 'captionTracks') || [];
+  const english = tracks.filter(t => String(t.languageCode || '').startsWith('en'));
+  const track = english.find(t => t.kind !== 'asr') || english[0] || tracks[0];
+  if (!track?.baseUrl) throw new Error("This video has no captions available. Attach a caption file instead.");
+
+  return fetchOrHint(track.baseUrl);
+};
+
+// Time in the video for a character offset in a transcript source.
+export const transcriptTimeAt = (source: Source, offset: number): number | undefined => {
+  const segments: TranscriptSegment[] = source.metadata?.segments || [];
+  return [...segments].reverse().find(s => offset >= s.start)?.time;
+};
@@ -0,0 +1,64 @@
+// Minimal ZIP reader for document containers (DOCX, EPUB). Reads the central directory
+// and inflates entries with the browser's DecompressionStream; no encryption or ZIP64.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIZE = 30;
+
+export interface ZipArchive {
+  names: string[];
+  readText: (name: string) => Promise<string | null>;
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const openZip = async (file: Blob): Promise<ZipArchive> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // End of central directory sits in the last 64KB (after an optional comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) { eocd = i; break; }
+  }
+  if (eocd === -1) throw new Error("This file is not a valid ZIP-based document.");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, { method: number; compressedSize: number; localOffset: number }>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, { method, compressedSize, localOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  // Manifest hrefs are URL-encoded, but a literal "%" that is not an escape must not abort the read
+  const decodeName = (name: string) => {
+    try { return decodeURIComponent(name); } catch (e) { return name; }
+  };
+
+  const readText = async (name: string) => {
+    const entry = entries.get(name) || entries.get(decodeName(name));
+    if (!entry) return null;
+    const { localOffset, compressedSize, method } = entry;
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return decoder.decode(data);
+    if (method === 8) return decoder.decode(await inflateRaw(data));
+    throw new Error(`Unsupported compression in ${name}.`);
+  };
+
+  return { names: Array.from(entries.keys()), readText };
+};
@@ -1,17 +1,48 @@
 
 export interface Source {
   id: string;
-  type: 'pdf' | 'audio' | 'image' | 'website' | 'youtube' | 'copiedText';
+  type: 'pdf' | 'audio' | 'image' | 'website' | 'youtube' | 'copiedText' | 'docx' | 'epub' | 'markdown' | 'html' | 'csv';
   title: string;
   content: string; // The raw text extracted
   createdAt: number;
   metadata?: Record<string, any>;
+  version?: number;           // Bumped when a refresh changes the content; 1 when absent
+  refreshedAt?: number;
+  versions?: SourceVersion[]; // Earlier contents, newest first
+  reference?: SourceReference;
+}
+
+export type ReferenceKind = 'article' | 'book' | 'chapter' | 'conference' | 'report' | 'thesis' | 'webpage' | 'video' | 'misc';
+
+// Bibliographic fields for citing a source; the source title is the work's title
+export interface SourceReference {
+  kind: ReferenceKind;
+  authors: string[];          // "Family, Given", or an organisation name as written
+  publishedAt?: string;       // ISO date, "YYYY-MM" or just a year
+  publisher?: string;
+  containerTitle?: string;    // Journal, book or website the work appears in
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  accessedAt?: string;        // ISO date the online copy was read
+}
+
+export interface SourceVersion {
+  version: number;
+  title: string;
+  content: string;
+  fetchedAt: number;
 }
 
 export interface Note {
   id: string;
-  content: string;
+  title: string;
+  content: string;            // Rich text (HTML) from the notes editor
   createdAt: number;
+  updatedAt: number;
+  origin?: { threadId: string; messageId: string }; // Pinned from a chat answer
+  promotedSourceId?: string;  // Source created from this note
 }
 
 export interface AudioOverviewDialogue {
@@ -20,7 +51,10 @@ export interface AudioOverviewDialogue {
   topic: string;              // user topic
   durationHint: "short" | "medium" | "long";
   createdAt: number;
-  audioUrl?: string;          // WAV/MP3 Url if synthesized
+  audioUrl?: string;          // WAV/MP3 Url if synthesized (session only, never persisted)
+  audioStored?: boolean;      // WAV bytes saved in the blob store under the artifact id
+  audioUpdatedAt?: number;    // When the stored WAV was last written; changes on re-synthesis
+  coverUrl?: string;          // data URL cover art (job-based overviews only)
   hosts: {
     nova: { name: "Nova", persona: string };
     atlas: { name: "Atlas", persona: string };
@@ -47,6 +81,7 @@ export interface Artifact {
   content: any; // Structured JSON (AudioOverviewDialogue) or text
   createdAt: number;
   status: 'generating' | 'completed' | 'failed';
+  sourceVersions?: Record<string, number>; // Source id -> version the artifact was generated from
 }
 
 export interface Notebook {
@@ -55,8 +90,13 @@ export interface Notebook {
   description: string;
   sources: Source[];
   artifacts: Artifact[];
+  chatThreads: ChatThread[];
+  notes: Note[];
+  chatMode?: ChatMode;        // Default for new threads; 'sourcesAndWeb' when unset
+  excludedSourceIds?: string[]; // Sources switched off for chat, Studio and audio
   createdAt: number;
   updatedAt: number;
+  schemaVersion?: number;     // Persisted shape version, see services/storage.ts
 }
 
 export interface ChatMessage {
@@ -64,8 +104,30 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   isStreaming?: boolean;
-  citations?: string[];
+  citations?: ChatCitation[];
   groundingMetadata?: any; // Google Search Grounding Data
+  mode?: ChatMode;         // Mode the answer was generated in (model messages)
+}
+
+// 'sourcesOnly' answers strictly from notebook sources with no web access
+export type ChatMode = 'sourcesOnly' | 'sourcesAndWeb';
+
+// Inline "[n]" marker in a model answer, resolved to the passage it was drawn from
+export interface ChatCitation {
+  marker: number;
+  sourceId: string;
+  start: number;              // Character span in Source.content
+  end: number;
+  sourceVersion?: number;     // Source version the span refers to; absent means version 1
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  mode?: ChatMode;            // Overrides Notebook.chatMode
+  messages: ChatMessage[];
 }
 
 export interface Notification {
@@ -75,6 +137,58 @@ export interface Notification {
   type: 'success' | 'error' | 'info';
 }
 
+export type ScoutSourceKind = 'papers' | 'news' | 'docs' | 'blogs';
+export type ScoutRecency = 'any' | 'week' | 'month' | 'year';
+
+export interface ScoutConfig {
+  count: number;
+  allowDomains: string[];     // Empty = any domain
+  denyDomains: string[];
+  recency: ScoutRecency;
+  kinds: ScoutSourceKind[];   // Empty = any kind
+}
+
+// A fetched Scout result waiting for the user to approve it as a Source
+export interface ScoutCandidate {
+  id: string;
+  url: string;
+  title: string;
+  domain: string;
+  content: string;
+  fullTextAvailable: boolean;
+  publishedAt?: string;
+  outsideRecency?: boolean;   // Known publish date is older than the requested window
+  metadata: Record<string, any>;
+}
+
+export interface ScoutTarget {
+  url: string;
+  title: string;
+  domain: string;
+}
+
+export type ScoutTargetStatus = 'pending' | 'fetching' | 'done' | 'failed' | 'skipped';
+
+export interface ScoutMissionTarget extends ScoutTarget {
+  status: ScoutTargetStatus;
+  error?: string;             // Fetch failure, or why a duplicate was skipped
+  candidate?: ScoutCandidate; // Set once the target is done
+}
+
+// A Scout run in the background. Cancelled or failed missions keep their finished
+// targets and can be resumed; the rest are fetched again.
+export interface ScoutMission {
+  id: string;
+  notebookId: string;
+  topic: string;
+  config: ScoutConfig;
+  status: 'searching' | 'fetching' | 'review' | 'cancelled' | 'failed';
+  progress?: string;
+  error?: string;
+  targets: ScoutMissionTarget[];
+  startedAt: number;
+}
+
 export interface BackgroundJob {
   id: string;
   notebookId: string;
@@ -1,7 +1,123 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Destinations the proxy must never reach: loopback, private networks, link-local (including
+// cloud metadata at 169.254.169.254), CGNAT, multicast and reserved ranges. BlockList matches
+// IPv4-mapped IPv6 addresses against the IPv4 rules itself.
+const privateRanges = new net.BlockList();
+([['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]] as const)
+  .forEach(([address, prefix]) => privateRanges.addSubnet(address, prefix, 'ipv4'));
+([['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const)
+  .forEach(([address, prefix]) => privateRanges.addSubnet(address, prefix, 'ipv6'));
+
+const isPublicAddress = (address: string) => !privateRanges.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+const refused = (message: string) => Object.assign(new Error(message), { refused: true });
+
+// dns.lookup that fails for private destinations. It is handed to the request itself, so the
+// address that was checked is the one connected to.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    const denied = addresses.find(a => !isPublicAddress(a.address));
+    if (denied || addresses.length === 0) return callback(refused(`Refusing to fetch private address ${denied?.address ?? hostname}`), '', 0);
+    if (options.all) (callback as any)(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const MAX_REDIRECTS = 5;
+const UPSTREAM_TIMEOUT_MS = 20000;
+
+interface Upstream {
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+// Redirects are followed by hand so every hop goes through the same checks.
+const fetchPublic = (target: URL, redirects = 0): Promise<Upstream> => new Promise((resolve, reject) => {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') return reject(refused('Only http and https URLs can be fetched'));
+  // IP literals skip DNS, so check them directly
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) return reject(refused(`Refusing to fetch private address ${host}`));
+
+  const request = (target.protocol === 'https:' ? https : http).get(target, {
+    lookup: publicLookup,
+    timeout: UPSTREAM_TIMEOUT_MS,
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; NebulaMind/1.0)',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    },
+  }, (upstream) => {
+    const status = upstream.statusCode || 502;
+    const location = upstream.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      upstream.resume();
+      if (redirects >= MAX_REDIRECTS) return reject(new Error('Too many redirects'));
+      return fetchPublic(new URL(location, target), redirects + 1).then(resolve, reject);
+    }
+    const chunks: Buffer[] = [];
+    upstream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    upstream.on('end', () => resolve({ status, contentType: upstream.headers['content-type'] || 'text/plain', body: Buffer.concat(chunks) }));
+    upstream.on('error', reject);
+  });
+  request.on('timeout', () => request.destroy(new Error('Upstream timed out')));
+  request.on('error', reject);
+});
+
+// Only the app itself may use the proxy: the server listens on every interface, and a request
+// from another host or page could otherwise make it fetch on their behalf.
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+const isLocalAppRequest = (req: IncomingMessage) => {
+  const host = req.headers.host || '';
+  if (!LOCAL_HOSTNAMES.includes(host.replace(/:\d+$/, ''))) return false;
+  const origin = req.headers.origin;
+  if (origin && origin !== `http://${host}` && origin !== `https://${host}`) return false;
+  const site = req.headers['sec-fetch-site'];
+  return !site || site === 'same-origin' || site === 'none';
+};
+
+// Local fetch proxy for website ingestion: GET /__proxy?url=<encoded url> fetches the page
+// server-side, so research URLs never pass through third-party CORS proxies.
+const fetchProxy = (): Plugin => {
+  const handle = async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (!req.url?.startsWith('/__proxy')) return next();
+    if (!isLocalAppRequest(req)) {
+      res.statusCode = 403;
+      res.end('The fetch proxy only serves the app on localhost');
+      return;
+    }
+    const target = new URL(req.url, 'http://localhost').searchParams.get('url');
+    if (!target || !/^https?:\/\//i.test(target)) {
+      res.statusCode = 400;
+      res.end('Missing or invalid url parameter');
+      return;
+    }
+    try {
+      const upstream = await fetchPublic(new URL(target));
+      res.statusCode = upstream.status;
+      res.setHeader('Content-Type', upstream.contentType);
+      res.end(upstream.body);
+    } catch (e: any) {
+      res.statusCode = e.refused ? 403 : 502;
+      res.end(e.refused ? e.message : `Upstream fetch failed: ${e.message}`);
+    }
+  };
+  return {
+    name: 'nebula-fetch-proxy',
+    configureServer: (server) => { server.middlewares.use(handle); },
+    configurePreviewServer: (server) => { server.middlewares.use(handle); },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +125,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), fetchProxy()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)